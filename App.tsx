@@ -1,53 +1,167 @@
 
-import React, { useState, useEffect } from 'react';
-import { TileData, UserSettings } from './types';
-import { CATEGORIES, VOCABULARY, STORAGE_KEY, PINNED_STORAGE_KEY, DEFAULT_SETTINGS } from './constants';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { TileData, UserSettings, VocabularyOverlay, BoardDefinition, BoardLayout, GridPosition, ProfileData, ProfileRegistry, UserProfile } from './types';
+import { CATEGORIES, VOCABULARY, STORAGE_KEY, PINNED_STORAGE_KEY } from './constants';
 import Tile from './components/Tile';
 import SentenceStrip from './components/SentenceStrip';
 import KeyboardView from './components/KeyboardView';
 import SavedPhrasesView from './components/SavedPhrasesView';
 import SettingsView from './components/SettingsView';
 import SaveModal from './components/SaveModal';
+import TileEditorModal, { NEW_BOARD_LINK } from './components/TileEditorModal';
+import BoardEditorModal from './components/BoardEditorModal';
+import EditableTile from './components/EditableTile';
+import ConfirmModal from './components/ConfirmModal';
+import ProfilePickerModal from './components/ProfilePickerModal';
+import PredictionBar from './components/PredictionBar';
+import InflectionModal from './components/InflectionModal';
+import RovingGrid from './components/RovingGrid';
+import GridLayoutModal from './components/GridLayoutModal';
+import EmptyGridCell from './components/EmptyGridCell';
+import LiveSession from './components/LiveSession';
+import ReplySuggestionsBar from './components/ReplySuggestionsBar';
+import SceneTilesView from './components/SceneTilesView';
 import Toast, { ToastMessage } from './components/Toast';
-import { Keyboard, Bookmark, Settings, Pin, Bell } from 'lucide-react';
+import { Keyboard, Bookmark, Settings, Pin, Bell, Pencil, Plus, RotateCcw, ChevronRight, ArrowLeft, LayoutGrid, MessageCircle, Camera } from 'lucide-react';
 import { playEmergencyAlert } from './services/gemini';
+import { onPlaybackChange, speakSelectionFeedback, speak, stopSpeech } from './services/speech';
+import { loadSettings, saveSettings } from './services/settings';
+import { importBoardFile } from './services/obf';
+import { loadProfileRegistry, saveProfileRegistry, getActiveProfile, loadProfileData, deleteProfileData, saveTileList } from './services/profiles';
+import { getStorageEstimate, isStorageNearlyFull, pruneUnusedImages } from './services/storage';
+import { hasInflections } from './services/morphology';
+import { createSwitchScanner } from './services/scanning';
+import { onHotkey } from './services/hotkeys';
+import { useDwellSelection } from './hooks/useDwellSelection';
+import { useTouchAccess } from './hooks/useTouchAccess';
+import { useLiveConversation } from './hooks/useLiveConversation';
+import { buildPredictionModel, saveUtteranceHistory, addToHistory } from './services/prediction';
+import { applyOverlay, upsertTile, deleteTile, reorderTile, isBuiltInTile, listBoards, getBoardLabel, addBoard, updateBoard, deleteBoard, movedBuiltInTiles, saveVocabularyOverlay, EMPTY_OVERLAY, arrangeGrid, setBoardLayout, moveTileToCell, placeTile, resolveVisibility } from './services/vocabulary';
+
+// Smallest row height on a fixed grid before the board scrolls instead of shrinking further
+const MIN_GRID_ROW_PX = 64;
 
 const App: React.FC = () => {
+  // Profiles (each user on a shared device has their own settings, phrases and boards)
+  const [profileRegistry, setProfileRegistry] = useState<ProfileRegistry>(loadProfileRegistry);
+  const activeProfile = getActiveProfile(profileRegistry);
+  const profileId = activeProfile.id;
+  const [isProfilePickerOpen, setIsProfilePickerOpen] = useState(false);
+
   const [sentence, setSentence] = useState<TileData[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>(CATEGORIES[0]);
+  // Boards visited through folder tiles, used for Back and the breadcrumb
+  const [boardHistory, setBoardHistory] = useState<string[]>([]);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  // Partner conversation: the partner's speech is transcribed and the user's sentences are spoken into it
+  const [isConversationOpen, setIsConversationOpen] = useState(false);
   const [savedTiles, setSavedTiles] = useState<TileData[]>([]);
   const [pinnedTiles, setPinnedTiles] = useState<TileData[]>([]);
+  const [utteranceHistory, setUtteranceHistory] = useState<string[]>([]);
   
-  // Settings State 
-  const [userSettings, setUserSettings] = useState<UserSettings>(DEFAULT_SETTINGS);
+  // Settings State (restored from storage, migrated to the current schema)
+  const [userSettings, setUserSettings] = useState<UserSettings>(() => loadSettings(profileId, activeProfile.defaultSettings));
   
+  // Board Customisation (overlay on top of the built-in VOCABULARY, loaded from IndexedDB)
+  const [vocabularyOverlay, setVocabularyOverlay] = useState<VocabularyOverlay>(EMPTY_OVERLAY);
+  // The profile whose stored data is in state. Board edits wait for it so they can't overwrite the stored boards.
+  const [loadedProfileId, setLoadedProfileId] = useState<string | null>(null);
+  const isProfileLoaded = loadedProfileId === profileId;
+  const vocabulary = useMemo(() => applyOverlay(VOCABULARY, vocabularyOverlay), [vocabularyOverlay]);
+  // The vocabulary as the user sees it: tiles above the current level are hidden or greyed out in place
+  const boardVocabulary = useMemo(
+    () => resolveVisibility(vocabulary, userSettings.vocabularyLevel, userSettings.lockedTiles),
+    [vocabulary, userSettings.vocabularyLevel, userSettings.lockedTiles]
+  );
+  const predictionModel = useMemo(
+    () => buildPredictionModel(boardVocabulary, savedTiles, utteranceHistory),
+    [boardVocabulary, savedTiles, utteranceHistory]
+  );
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [isTileEditorOpen, setIsTileEditorOpen] = useState(false);
+  const [editingTile, setEditingTile] = useState<TileData | null>(null);
+  const [pendingDeleteTile, setPendingDeleteTile] = useState<TileData | null>(null);
+  const [pendingCell, setPendingCell] = useState<GridPosition | null>(null); // Where a new tile goes on a fixed grid
+  const [isGridLayoutOpen, setIsGridLayoutOpen] = useState(false);
+  const [inflectingTile, setInflectingTile] = useState<TileData | null>(null);
+  const [isResetBoardOpen, setIsResetBoardOpen] = useState(false);
+  const [isBoardEditorOpen, setIsBoardEditorOpen] = useState(false);
+  const [editingBoard, setEditingBoard] = useState<BoardDefinition | null>(null);
+  const [pendingDeleteBoard, setPendingDeleteBoard] = useState<BoardDefinition | null>(null);
+
   // UI State for Modals/Toasts
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
   const [toast, setToast] = useState<ToastMessage | null>(null);
   const [pendingSaveName, setPendingSaveName] = useState('');
 
-  // Load saved phrases and pinned tiles on mount
+  // Load the active profile's data on mount and whenever the profile changes
   useEffect(() => {
-    // Saved Phrases
-    const loadedSaved = localStorage.getItem(STORAGE_KEY);
-    if (loadedSaved) {
-      try {
-        setSavedTiles(JSON.parse(loadedSaved));
-      } catch (e) {
-        console.error("Failed to load saved phrases", e);
-      }
-    }
+    let cancelled = false;
+    loadProfileData(activeProfile).then((data) => {
+      // Ignore a slow load if the user has already switched to another profile
+      if (cancelled) return;
+      setUserSettings(data.settings);
+      setSavedTiles(data.savedTiles);
+      setPinnedTiles(data.pinnedTiles);
+      setVocabularyOverlay(data.vocabulary);
+      setUtteranceHistory(data.history);
+      setLoadedProfileId(activeProfile.id);
+    });
+    return () => { cancelled = true; };
+  }, [activeProfile]);
 
-    // Pinned Tiles
-    const loadedPinned = localStorage.getItem(PINNED_STORAGE_KEY);
-    if (loadedPinned) {
-      try {
-        setPinnedTiles(JSON.parse(loadedPinned));
-      } catch (e) {
-        console.error("Failed to load pinned tiles", e);
-      }
-    }
+  // Reflect speech playback (from any engine) in the UI
+  useEffect(() => {
+    return onPlaybackChange((event) => setIsSpeaking(event === 'start'));
+  }, []);
+
+  // Switch scanning highlights and selects buttons across the page while 'scan' mode is on
+  const { mode, scanMethod, scanInput, scanRate, scanLoops, scanAudioCues, feedbackVolume } = userSettings.accessibility;
+  useEffect(() => {
+    if (mode !== 'scan') return;
+    const scanner = createSwitchScanner({
+      method: scanMethod,
+      input: scanInput,
+      rate: scanRate,
+      loops: scanLoops,
+      audioCues: scanAudioCues,
+      voiceId: userSettings.webSpeechVoice,
+      volume: feedbackVolume,
+      hotkeys: userSettings.hotkeys,
+    });
+    scanner.start();
+    return scanner.stop;
+  }, [mode, scanMethod, scanInput, scanRate, scanLoops, scanAudioCues, feedbackVolume, userSettings.webSpeechVoice, userSettings.hotkeys]);
+
+  // Dwell selection works the same way for every button on the page while 'dwell' mode is on
+  useDwellSelection({
+    enabled: mode === 'dwell',
+    dwellTime: userSettings.accessibility.dwellTime,
+    cooldown: userSettings.accessibility.dwellCooldown,
+    indicator: userSettings.accessibility.dwellIndicator,
+    highContrast: userSettings.accessibility.highContrast,
+  });
+
+  // The touch access profile filters taps on tiles, the keyboard and the sentence strip in standard mode
+  useTouchAccess({
+    enabled: mode === 'standard',
+    holdTime: userSettings.accessibility.clickHoldTime,
+    repeatDelay: userSettings.accessibility.touchRepeatDelay,
+    selectOn: userSettings.accessibility.touchSelectOn,
+    dragTarget: userSettings.accessibility.touchDragTarget,
+    ignoreMultiFinger: userSettings.accessibility.touchIgnoreMultiFinger,
+  });
+
+  const conversation = useLiveConversation({ enabled: isConversationOpen, voiceName: userSettings.voiceName });
+  // What the partner last said, until the user has answered it
+  const unansweredUtterance = useMemo(() => {
+    const last = [...conversation.transcript].reverse().find(entry => entry.isFinal);
+    return last?.speaker === 'partner' ? last.text : '';
+  }, [conversation.transcript]);
+
+  // Clear out pictures left behind by edited or deleted tiles in earlier sessions
+  useEffect(() => {
+    pruneUnusedImages();
   }, []);
 
   // --- Helpers ---
@@ -56,38 +170,70 @@ const App: React.FC = () => {
     setToast({ id: Date.now().toString(), type, message });
   };
 
+  // Explains a failed write, pointing at the quota when the device is nearly out of space
+  const notifySaveFailed = async (what: string) => {
+    const estimate = await getStorageEstimate();
+    showToast('error', isStorageNearlyFull(estimate)
+      ? `Could not save ${what}. Storage is full – try removing unused pictures or saved phrases.`
+      : `Could not save ${what}.`);
+  };
+
+  const persistTileList = (key: string, tiles: TileData[], what: string) => {
+    saveTileList(key, tiles, profileId).then((ok) => {
+      if (!ok) notifySaveFailed(what);
+    });
+  };
+
   const generateId = () => {
     return Math.random().toString(36).substring(2, 11) + Date.now().toString(36);
   };
 
-  // --- Handlers ---
+  // --- Navigation ---
 
-  const handleTileClick = (tile: TileData) => {
-    // Navigation Logic: Check for special folder tiles or back buttons
-    if (tile.id === 'folder_connectors') {
-      setSelectedCategory('Connectors');
-      return;
-    }
-    if (tile.id === 'folder_responses') {
-      setSelectedCategory('Responses');
-      return;
-    }
-    if (tile.id === 'folder_greetings') {
-      setSelectedCategory('Greetings');
+  // Top-level navigation (sidebar): resets the folder history
+  const selectCategory = (category: string) => {
+    setBoardHistory([]);
+    setSelectedCategory(category);
+  };
+
+  const openBoard = (boardId: string) => {
+    setBoardHistory((prev) => [...prev, selectedCategory]);
+    setSelectedCategory(boardId);
+  };
+
+  const goBack = () => {
+    if (boardHistory.length === 0) {
+      setSelectedCategory('General');
       return;
     }
-    if (tile.id === 'folder_phrases') {
-      setSelectedCategory('Phrases');
+    setSelectedCategory(boardHistory[boardHistory.length - 1]);
+    setBoardHistory((prev) => prev.slice(0, -1));
+  };
+
+  const goToBreadcrumb = (index: number) => {
+    setSelectedCategory(boardHistory[index]);
+    setBoardHistory((prev) => prev.slice(0, index));
+  };
+
+  // --- Handlers ---
+
+  const handleTileClick = (tile: TileData) => {
+    // Navigation Logic: folder tiles open their board, back buttons return to the previous one
+    if (tile.linkTo) {
+      openBoard(tile.linkTo);
       return;
     }
-    if (tile.id === 'back_general') {
-      setSelectedCategory('General');
+    if (tile.isNavigation) {
+      goBack();
       return;
     }
 
     // Add a unique instance of the tile to the sentence
     const instanceTile = { ...tile, id: `${tile.id}-${generateId()}` };
     setSentence((prev) => [...prev, instanceTile]);
+
+    const sentenceText = [...sentence, instanceTile].map(t => t.textToSpeak || t.label).join(' ');
+    speakSelectionFeedback(tile.textToSpeak || tile.label, sentenceText, userSettings);
   };
 
   const handleRemoveTile = (index: number) => {
@@ -98,6 +244,38 @@ const App: React.FC = () => {
     setSentence([]);
   };
 
+  // Spoken sentences train the prediction model for this profile
+  const handleSpoken = (text: string) => {
+    // Saving before the stored history has loaded would overwrite it
+    if (!isProfileLoaded) return;
+    const updated = addToHistory(utteranceHistory, text);
+    if (updated === utteranceHistory) return;
+    setUtteranceHistory(updated);
+    saveUtteranceHistory(updated, profileId).then((ok) => {
+      if (!ok) notifySaveFailed('speech history');
+    });
+  };
+
+  // Speaks into the conversation, or on this device (with a notice) when it isn't connected
+  const speakInConversation = (text: string): Promise<void> => (
+    conversation.say(text).catch((e) => {
+      console.error("Conversation speech failed", e);
+      showToast('error', 'Conversation not connected. Speaking on this device instead.');
+      return speak(text, userSettings);
+    })
+  );
+
+  const stopConversationSpeech = () => {
+    conversation.interrupt();
+    stopSpeech();
+  };
+
+  // Quick replies can be said straight away, skipping the sentence strip
+  const handleSpeakReply = (text: string) => {
+    handleSpoken(text);
+    speakInConversation(text).catch(e => console.error("Reply failed", e));
+  };
+
   const handleTogglePin = (tile: TileData) => {
     const isPinned = pinnedTiles.some(t => t.id === tile.id);
     let newPinned;
@@ -112,7 +290,7 @@ const App: React.FC = () => {
     }
     
     setPinnedTiles(newPinned);
-    localStorage.setItem(PINNED_STORAGE_KEY, JSON.stringify(newPinned));
+    persistTileList(PINNED_STORAGE_KEY, newPinned, 'pinned tiles');
   };
 
   const openSaveModal = () => {
@@ -124,49 +302,370 @@ const App: React.FC = () => {
     setIsSaveModalOpen(true);
   };
 
-  const confirmSavePhrase = (label: string) => {
-    try {
-      const fullText = sentence.map(t => t.textToSpeak || t.label).join(' ');
-      
-      const newTile: TileData = {
-        id: `saved-${generateId()}`,
-        label: label.trim(), 
-        textToSpeak: fullText,
-        emoji: '⭐',
-        color: 'bg-amber-100 border-amber-300',
-        category: 'Saved',
-      };
-
-      const updated = [newTile, ...savedTiles];
-      setSavedTiles(updated);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-      
-      showToast('success', 'Phrase saved to "Saved" tab!');
-      setIsSaveModalOpen(false);
-    } catch (e) {
-      console.error("Storage error:", e);
-      showToast('error', 'Could not save. Storage might be full.');
+  const confirmSavePhrase = async (label: string) => {
+    const fullText = sentence.map(t => t.textToSpeak || t.label).join(' ');
+    
+    const newTile: TileData = {
+      id: `saved-${generateId()}`,
+      label: label.trim(), 
+      textToSpeak: fullText,
+      emoji: '⭐',
+      color: 'bg-amber-100 border-amber-300',
+      category: 'Saved',
+    };
+
+    const updated = [newTile, ...savedTiles];
+    if (!(await saveTileList(STORAGE_KEY, updated, profileId))) {
+      // Keep the modal open so the phrase isn't lost
+      notifySaveFailed('phrase');
+      return;
     }
+    setSavedTiles(updated);
+    showToast('success', 'Phrase saved to "Saved" tab!');
+    setIsSaveModalOpen(false);
   };
 
-  const handleDeleteSavedPhrase = (id: string) => {
+  const handleSettingsChange = (settings: UserSettings) => {
+    setUserSettings(settings);
+    if (!saveSettings(settings, profileId)) {
+      showToast('error', 'Could not save settings. Storage might be full.');
+    }
+  };
+
+  // --- Profiles ---
+
+  const updateProfileRegistry = (registry: ProfileRegistry) => {
+    setProfileRegistry(registry);
+    if (!saveProfileRegistry(registry)) {
+      showToast('error', 'Could not save profiles. Storage might be full.');
+    }
+  };
+
+  const handleSwitchProfile = (id: string) => {
+    setIsProfilePickerOpen(false);
+    if (id === profileId) return;
+    // Don't carry one person's half-built sentence or open board over to the next
+    setSentence([]);
+    setIsEditMode(false);
+    setIsConversationOpen(false);
+    selectCategory(CATEGORIES[0]);
+    updateProfileRegistry({ ...profileRegistry, activeProfileId: id });
+    const profile = profileRegistry.profiles.find(p => p.id === id);
+    if (profile) showToast('success', `Switched to ${profile.name}`);
+  };
+
+  const handleCreateProfile = (profile: Omit<UserProfile, 'id'>) => {
+    const newProfile: UserProfile = { ...profile, id: `profile-${generateId()}` };
+    updateProfileRegistry({ ...profileRegistry, profiles: [...profileRegistry.profiles, newProfile] });
+    showToast('success', `Profile "${newProfile.name}" created`);
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    if (id === profileId) return;
+    deleteProfileData(id);
+    updateProfileRegistry({ ...profileRegistry, profiles: profileRegistry.profiles.filter(p => p.id !== id) });
+    showToast('success', 'Profile deleted');
+  };
+
+  const handleSetSwitchPin = (pinHash: string | undefined) => {
+    updateProfileRegistry({ ...profileRegistry, switchPinHash: pinHash });
+    showToast('success', pinHash ? 'Switch PIN set' : 'Switch PIN removed');
+  };
+
+  // --- Board Editor ---
+
+  // Returns false, without saving, while the profile's boards are still loading
+  const updateVocabularyOverlay = (overlay: VocabularyOverlay): boolean => {
+    if (!isProfileLoaded) {
+      showToast('error', 'Your boards are still loading. Try again in a moment.');
+      return false;
+    }
+    setVocabularyOverlay(overlay);
+    saveVocabularyOverlay(overlay, profileId).then((ok) => {
+      if (!ok) notifySaveFailed('board');
+    });
+    return true;
+  };
+
+  const openTileEditor = (tile: TileData | null) => {
+    setEditingTile(tile);
+    setPendingCell(null);
+    setIsTileEditorOpen(true);
+  };
+
+  const addTileAtCell = (position: GridPosition) => {
+    openTileEditor(null);
+    setPendingCell(position);
+  };
+
+  const handleSaveTile = (tile: TileData) => {
+    let overlay = vocabularyOverlay;
+    // Positions live in the board layout, not on the stored tile
+    const { position: _position, ...fields } = tile;
+    let savedTile: TileData = fields.id ? fields : { ...fields, id: `user-${generateId()}` };
+
+    // "Open a new folder": create a sub-board named after the tile
+    if (savedTile.linkTo === NEW_BOARD_LINK) {
+      const board: BoardDefinition = { id: `board-${generateId()}`, label: savedTile.label, emoji: savedTile.emoji, showInSidebar: false };
+      overlay = addBoard(overlay, board);
+      savedTile = { ...savedTile, linkTo: board.id };
+    }
+
+    overlay = upsertTile(overlay, savedTile);
+    // New tiles (or tiles moved here from another board) get a cell of their own on a fixed grid
+    if (!tile.id || editingTile?.category !== savedTile.category) {
+      overlay = placeTile(overlay, savedTile.category, vocabulary[savedTile.category] || [], savedTile, pendingCell || undefined);
+    }
+    if (!updateVocabularyOverlay(overlay)) return;
+    setIsTileEditorOpen(false);
+    showToast('success', tile.id ? 'Tile updated' : 'Tile added');
+  };
+
+  const confirmDeleteTile = () => {
+    if (!pendingDeleteTile) return;
+    const isBuiltIn = isBuiltInTile(VOCABULARY, pendingDeleteTile.id);
+    if (!updateVocabularyOverlay(deleteTile(vocabularyOverlay, pendingDeleteTile.id, isBuiltIn))) return;
+    setPendingDeleteTile(null);
+    setIsTileEditorOpen(false);
+    showToast('success', 'Tile deleted');
+  };
+
+  const handleReorderTile = (category: string) => (fromId: string, toId: string) => {
+    const currentIds = (vocabulary[category] || []).map(t => t.id);
+    updateVocabularyOverlay(reorderTile(vocabularyOverlay, category, currentIds, fromId, toId));
+  };
+
+  const handleMoveTileToCell = (category: string) => (tileId: string, position: GridPosition) => {
+    updateVocabularyOverlay(moveTileToCell(vocabularyOverlay, category, vocabulary[category] || [], tileId, position));
+  };
+
+  const handleSaveGridLayout = (size: { rows: number; columns: number } | null) => {
+    if (!updateVocabularyOverlay(setBoardLayout(vocabularyOverlay, selectedCategory, vocabulary[selectedCategory] || [], size))) return;
+    setIsGridLayoutOpen(false);
+    showToast('success', size ? `Fixed ${size.rows} × ${size.columns} grid` : 'Board fits to screen');
+  };
+
+  const handleResetBoard = () => {
+    if (!updateVocabularyOverlay(EMPTY_OVERLAY)) return;
+    selectCategory('General');
+    showToast('success', 'Board restored to defaults');
+  };
+
+  const handleImportBoards = async (file: File) => {
     try {
-      const updated = savedTiles.filter(t => t.id !== id);
-      setSavedTiles(updated);
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-      showToast('success', 'Phrase deleted.');
-    } catch (e) {
-      showToast('error', 'Failed to delete phrase.');
+      const result = await importBoardFile(file, vocabularyOverlay);
+      if (!updateVocabularyOverlay(result.overlay)) return;
+      showToast('success', `Imported ${result.tileCount} tiles on ${result.boardCount} boards`);
+    } catch (e: any) {
+      console.error("Board import failed", e);
+      showToast('error', e.message || 'Could not import this board file.');
     }
   };
 
+  const handleRestoreProfile = (profile: ProfileData) => {
+    if (!updateVocabularyOverlay(profile.vocabulary)) return;
+    setSavedTiles(profile.savedTiles);
+    persistTileList(STORAGE_KEY, profile.savedTiles, 'saved phrases');
+    setPinnedTiles(profile.pinnedTiles);
+    persistTileList(PINNED_STORAGE_KEY, profile.pinnedTiles, 'pinned tiles');
+    handleSettingsChange(profile.settings);
+    setUtteranceHistory(profile.history);
+    saveUtteranceHistory(profile.history, profileId).then((ok) => {
+      if (!ok) notifySaveFailed('speech history');
+    });
+    showToast('success', 'Backup restored');
+  };
+
+  const openBoardEditor = (board: BoardDefinition | null) => {
+    setEditingBoard(board);
+    setIsBoardEditorOpen(true);
+  };
+
+  const handleSaveBoard = (board: BoardDefinition) => {
+    if (board.id) {
+      if (!updateVocabularyOverlay(updateBoard(vocabularyOverlay, board))) return;
+    } else {
+      const newBoard = { ...board, id: `board-${generateId()}` };
+      if (!updateVocabularyOverlay(addBoard(vocabularyOverlay, newBoard))) return;
+      selectCategory(newBoard.id);
+    }
+    setIsBoardEditorOpen(false);
+    showToast('success', board.id ? 'Category updated' : 'Category created');
+  };
+
+  // Built-in words the user moved onto the board can't be deleted with it; they go back where they came from
+  const movedTiles = pendingDeleteBoard ? movedBuiltInTiles(VOCABULARY, vocabularyOverlay, pendingDeleteBoard.id) : [];
+  const movedTilesNotice = movedTiles.length > 0
+    ? ` ${movedTiles.map(t => t.label).join(', ')} will go back to ${movedTiles.length === 1 ? 'its' : 'their'} original ${movedTiles.length === 1 ? 'category' : 'categories'}.`
+    : '';
+
+  const confirmDeleteBoard = () => {
+    if (!pendingDeleteBoard) return;
+    if (!updateVocabularyOverlay(deleteBoard(vocabularyOverlay, pendingDeleteBoard.id))) return;
+    if (selectedCategory === pendingDeleteBoard.id || boardHistory.includes(pendingDeleteBoard.id)) {
+      selectCategory('General');
+    }
+    setPendingDeleteBoard(null);
+    setIsBoardEditorOpen(false);
+    showToast('success', 'Category deleted');
+  };
+
+  const handleDeleteSavedPhrase = (id: string) => {
+    const updated = savedTiles.filter(t => t.id !== id);
+    setSavedTiles(updated);
+    persistTileList(STORAGE_KEY, updated, 'saved phrases');
+    showToast('success', 'Phrase deleted.');
+  };
+
   // Helper to get icon for category
   const getCategoryIcon = (cat: string) => {
     if (cat === 'Keyboard') return <Keyboard size={20} />;
+    if (cat === 'Scene') return <Camera size={20} />;
     if (cat === 'Saved') return <Bookmark size={20} />;
+    const customBoard = vocabularyOverlay.boards.find(b => b.id === cat);
+    if (customBoard) return <span className="text-xl leading-none">{customBoard.emoji}</span>;
     return null;
   };
 
+  // Built-in categories, with user categories slotted in before the Keyboard, Scene and Saved tools
+  const sidebarCategories = [
+    ...CATEGORIES.filter(cat => cat !== 'Keyboard' && cat !== 'Scene' && cat !== 'Saved'),
+    ...vocabularyOverlay.boards.filter(b => b.showInSidebar).map(b => b.id),
+    'Keyboard',
+    'Scene',
+    'Saved',
+  ];
+  // While inside a folder, keep the category it was opened from highlighted
+  const activeSidebarCategory = boardHistory[0] ?? selectedCategory;
+
+  const stepCategory = (direction: 1 | -1) => {
+    const index = sidebarCategories.indexOf(activeSidebarCategory);
+    const next = index === -1 ? 0 : (index + direction + sidebarCategories.length) % sidebarCategories.length;
+    selectCategory(sidebarCategories[next]);
+  };
+
+  // Alarm and category hotkeys; Speak, Clear and Backspace belong to the sentence strip.
+  // stepCategory is read through a ref so the listener is only replaced when the bindings change.
+  const stepCategoryRef = useRef(stepCategory);
+  stepCategoryRef.current = stepCategory;
+  useEffect(() => onHotkey(userSettings.hotkeys, {
+    alarm: playEmergencyAlert,
+    nextCategory: () => stepCategoryRef.current(1),
+    previousCategory: () => stepCategoryRef.current(-1),
+  }), [userSettings.hotkeys]);
+
+  // Renders a category grid, switching to editable tiles while the board editor is active
+  // A fixed rows × columns grid: every tile stays in its cell and the cells scale with the screen.
+  // `fitToScreen` stretches the rows to fill the board; otherwise rows use the tile size setting.
+  const renderFixedGrid = (category: string, layout: BoardLayout, showPins: boolean, fitToScreen: boolean) => {
+    const { rows, placements } = arrangeGrid((isEditMode ? vocabulary : boardVocabulary)[category] || [], layout);
+    const taken = new Set(placements.map(({ position }) => `${position.row}:${position.column}`));
+    const emptyCells: GridPosition[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < layout.columns; column++) {
+        if (!taken.has(`${row}:${column}`)) emptyCells.push({ row, column });
+      }
+    }
+    // A full grid still needs somewhere to add tiles while editing
+    const addCells = emptyCells.length > 0 ? emptyCells : [{ row: rows, column: 0 }];
+    const rowCount = isEditMode && emptyCells.length === 0 ? rows + 1 : rows;
+    const rowSize = fitToScreen ? `minmax(${MIN_GRID_ROW_PX}px, 1fr)` : `${userSettings.tileSize}px`;
+    const cellStyle = (position: GridPosition) => ({ gridRow: position.row + 1, gridColumn: position.column + 1 });
+
+    const swapWithTile = (fromId: string, toId: string) => {
+      const target = placements.find(({ tile }) => tile.id === toId)?.position;
+      if (target) handleMoveTileToCell(category)(fromId, target);
+    };
+
+    return (
+      <RovingGrid
+        className={`grid gap-4 ${fitToScreen ? 'h-full' : ''}`}
+        style={{ gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))`, gridTemplateRows: `repeat(${rowCount}, ${rowSize})` }}
+        aria-label={getBoardLabel(vocabularyOverlay, category)}
+      >
+        {placements.map(({ tile, position }) => isEditMode ? (
+          <div key={tile.id} style={cellStyle(position)} className="min-h-0">
+            <EditableTile
+              data={tile}
+              settings={userSettings}
+              onEdit={openTileEditor}
+              onReorder={swapWithTile}
+              onOpenFolder={openBoard}
+              fillCell
+            />
+          </div>
+        ) : tile.visibility === 'hidden' ? null : (
+          <div key={tile.id} style={cellStyle(position)} className="min-h-0">
+            <Tile
+              data={tile}
+              onClick={handleTileClick}
+              settings={userSettings}
+              isPinned={showPins ? pinnedTiles.some(p => p.id === tile.id) : undefined}
+              onTogglePin={showPins ? () => handleTogglePin(tile) : undefined}
+              onLongPress={hasInflections(tile) ? setInflectingTile : undefined}
+              fillCell
+            />
+          </div>
+        ))}
+
+        {isEditMode && addCells.map(position => (
+          <div key={`cell-${position.row}-${position.column}`} style={cellStyle(position)} className="min-h-0">
+            <EmptyGridCell position={position} onAdd={addTileAtCell} onDropTile={handleMoveTileToCell(category)} />
+          </div>
+        ))}
+      </RovingGrid>
+    );
+  };
+
+  const renderTileGrid = (category: string, showPins: boolean, fitToScreen = false) => vocabularyOverlay.layouts[category] ? (
+    renderFixedGrid(category, vocabularyOverlay.layouts[category], showPins, fitToScreen)
+  ) : (
+    <RovingGrid className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4" aria-label={getBoardLabel(vocabularyOverlay, category)}>
+      {(isEditMode ? vocabulary : boardVocabulary)[category]?.map((tile) => isEditMode ? (
+        <EditableTile
+          key={tile.id}
+          data={tile}
+          settings={userSettings}
+          onEdit={openTileEditor}
+          onReorder={handleReorderTile(category)}
+          onOpenFolder={openBoard}
+        />
+      ) : tile.visibility === 'hidden' ? (
+        // Keeps the tile's slot so the words after it don't shift when it is revealed
+        <div key={tile.id} aria-hidden="true" style={{ minHeight: `${userSettings.tileSize}px` }} />
+      ) : (
+        <Tile 
+          key={tile.id} 
+          data={tile} 
+          onClick={handleTileClick}
+          settings={userSettings}
+          isPinned={showPins ? pinnedTiles.some(p => p.id === tile.id) : undefined}
+          onTogglePin={showPins ? () => handleTogglePin(tile) : undefined}
+          onLongPress={hasInflections(tile) ? setInflectingTile : undefined}
+        />
+      ))}
+
+      {/* Add Tile Button (edit mode only) */}
+      {isEditMode && (
+        <button
+          onClick={() => openTileEditor(null)}
+          style={{ height: `${userSettings.tileSize}px` }}
+          className="w-full flex flex-col items-center justify-center rounded-xl border-3 border-dashed border-slate-300 text-slate-400 hover:text-blue-500 hover:border-blue-400 hover:bg-blue-50 transition-all gap-2 group"
+        >
+          <div className="p-3 bg-slate-100 rounded-full group-hover:bg-blue-100 transition-colors">
+            <Plus size={32} />
+          </div>
+          <span className="font-bold">New Tile</span>
+        </button>
+      )}
+    </RovingGrid>
+  );
+
+  const isBoardCategory = !['Keyboard', 'Scene', 'Saved', 'Settings'].includes(selectedCategory);
+  const selectedLayout: BoardLayout | undefined = vocabularyOverlay.layouts[selectedCategory];
+  // Fixed grids on ordinary boards stretch to fill the screen (General also lists pinned tiles below)
+  const isFittedGrid = isBoardCategory && selectedCategory !== 'General' && !!selectedLayout;
+
   // Determine Layout Order based on settings
   const isSidebarRight = userSettings.sidebarPosition === 'right';
   const layoutClass = `flex-1 flex overflow-hidden ${isSidebarRight ? 'flex-col-reverse md:flex-row-reverse' : 'flex-col md:flex-row'}`;
@@ -195,6 +694,76 @@ const App: React.FC = () => {
         defaultName={pendingSaveName}
       />
 
+      <TileEditorModal
+        isOpen={isTileEditorOpen}
+        tile={editingTile}
+        defaultCategory={selectedCategory}
+        boards={listBoards(VOCABULARY, vocabularyOverlay)}
+        onClose={() => setIsTileEditorOpen(false)}
+        onSave={handleSaveTile}
+        onDelete={setPendingDeleteTile}
+      />
+
+      <GridLayoutModal
+        isOpen={isGridLayoutOpen}
+        boardLabel={getBoardLabel(vocabularyOverlay, selectedCategory)}
+        layout={selectedLayout}
+        tileCount={vocabulary[selectedCategory]?.length || 0}
+        onClose={() => setIsGridLayoutOpen(false)}
+        onSave={handleSaveGridLayout}
+      />
+
+      <ConfirmModal
+        isOpen={!!pendingDeleteTile}
+        onClose={() => setPendingDeleteTile(null)}
+        onConfirm={confirmDeleteTile}
+        title="Delete Tile"
+        message={`Remove "${pendingDeleteTile?.label}" from the board?`}
+      />
+
+      <BoardEditorModal
+        isOpen={isBoardEditorOpen}
+        board={editingBoard}
+        onClose={() => setIsBoardEditorOpen(false)}
+        onSave={handleSaveBoard}
+        onDelete={setPendingDeleteBoard}
+      />
+
+      <ConfirmModal
+        isOpen={!!pendingDeleteBoard}
+        onClose={() => setPendingDeleteBoard(null)}
+        onConfirm={confirmDeleteBoard}
+        title="Delete Category"
+        message={`Delete "${pendingDeleteBoard?.label}" and every tile in it? Folder tiles that open it will be kept as normal tiles.${movedTilesNotice}`}
+      />
+
+      <ConfirmModal
+        isOpen={isResetBoardOpen}
+        onClose={() => setIsResetBoardOpen(false)}
+        onConfirm={handleResetBoard}
+        title="Reset Board"
+        message="This removes all added, edited and reordered tiles and grid layouts, and restores the original vocabulary. This action cannot be undone."
+      />
+
+      {isProfilePickerOpen && (
+        <ProfilePickerModal
+          registry={profileRegistry}
+          currentSettings={userSettings}
+          onClose={() => setIsProfilePickerOpen(false)}
+          onSwitch={handleSwitchProfile}
+          onCreate={handleCreateProfile}
+          onDelete={handleDeleteProfile}
+          onSetPin={handleSetSwitchPin}
+        />
+      )}
+
+      <InflectionModal
+        tile={inflectingTile}
+        onClose={() => setInflectingTile(null)}
+        onSelect={handleTileClick}
+        settings={userSettings}
+      />
+
       {/* Main Board UI */}
       <SentenceStrip 
         sentence={sentence} 
@@ -202,34 +771,90 @@ const App: React.FC = () => {
         onClear={handleClear}
         onSave={openSaveModal}
         onAddTile={handleTileClick}
-        isSpeaking={isSpeaking}
-        setIsSpeaking={setIsSpeaking}
+        vocabulary={boardVocabulary}
+        isSpeaking={isSpeaking || conversation.isSpeaking}
         settings={userSettings}
+        predictionModel={predictionModel}
+        onSpoken={handleSpoken}
+        speakText={isConversationOpen ? speakInConversation : undefined}
+        stopSpeaking={isConversationOpen ? stopConversationSpeech : undefined}
       />
 
+      {isConversationOpen && (
+        <LiveSession
+          conversation={conversation}
+          settings={userSettings}
+          onClose={() => setIsConversationOpen(false)}
+        />
+      )}
+      {isConversationOpen && (
+        <ReplySuggestionsBar
+          utterance={unansweredUtterance}
+          vocabulary={boardVocabulary}
+          onSelect={handleTileClick}
+          onSpeak={handleSpeakReply}
+          settings={userSettings}
+        />
+      )}
+
       {/* Main Content Area */}
       <div className={layoutClass}>
         
         {/* Sidebar Container */}
-        <div className={`w-full md:w-64 flex md:flex-col shrink-0 ${sidebarBorderClass} ${sidebarBgClass}`}>
+        <div data-scan-region="Categories" className={`w-full md:w-64 flex md:flex-col shrink-0 ${sidebarBorderClass} ${sidebarBgClass}`}>
           
           {/* Scrollable Categories List */}
           <div className="flex-1 p-2 flex md:flex-col gap-2 overflow-x-auto md:overflow-y-auto no-scrollbar">
-            {CATEGORIES.map((cat) => (
+            {sidebarCategories.map((cat) => {
+              const customBoard = vocabularyOverlay.boards.find(b => b.id === cat);
+              return (
+                <div key={cat} className="relative flex shrink-0">
+                  <button
+                    onClick={() => selectCategory(cat)}
+                    className={`flex-1 px-4 py-3 md:py-4 rounded-xl font-bold text-left transition-all whitespace-nowrap md:whitespace-normal flex items-center gap-3
+                      ${activeSidebarCategory === cat 
+                        ? categoryActiveBtnClass
+                        : categoryInactiveBtnClass
+                      }
+                    `}
+                  >
+                    {getCategoryIcon(cat)}
+                    <span>{getBoardLabel(vocabularyOverlay, cat)}</span>
+                  </button>
+                  {isEditMode && customBoard && (
+                    <button
+                      onClick={() => openBoardEditor(customBoard)}
+                      className="absolute top-1/2 -translate-y-1/2 right-2 p-1.5 rounded-full bg-blue-600 text-white shadow-sm"
+                      aria-label={`Edit ${customBoard.label}`}
+                    >
+                      <Pencil size={14} />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+
+            {/* New Category (edit mode only) */}
+            {isEditMode && (
               <button
-                key={cat}
-                onClick={() => setSelectedCategory(cat)}
-                className={`px-4 py-3 md:py-4 rounded-xl font-bold text-left transition-all whitespace-nowrap md:whitespace-normal flex items-center gap-3 shrink-0
-                  ${selectedCategory === cat 
-                    ? categoryActiveBtnClass
-                    : categoryInactiveBtnClass
-                  }
-                `}
+                onClick={() => openBoardEditor(null)}
+                className="px-4 py-3 md:py-4 rounded-xl font-bold text-left transition-all whitespace-nowrap flex items-center gap-3 shrink-0 border-2 border-dashed border-slate-300 text-slate-400 hover:text-blue-500 hover:border-blue-400"
               >
-                {getCategoryIcon(cat)}
-                <span>{cat}</span>
+                <Plus size={20} />
+                <span>New Category</span>
               </button>
-            ))}
+            )}
+
+            {/* Mobile Only: Conversation Button */}
+            <button
+              onClick={() => setIsConversationOpen(prev => !prev)}
+              className={`md:hidden px-4 py-3 rounded-xl font-bold text-left transition-all whitespace-nowrap flex items-center gap-3 shrink-0
+                ${isConversationOpen ? categoryActiveBtnClass : categoryInactiveBtnClass}
+              `}
+            >
+              <MessageCircle size={20} />
+              <span>Conversation</span>
+            </button>
 
             {/* Mobile Only: Alarm Button */}
              <button
@@ -242,7 +867,7 @@ const App: React.FC = () => {
 
             {/* Mobile Only Settings Button */}
             <button
-              onClick={() => setSelectedCategory('Settings')}
+              onClick={() => selectCategory('Settings')}
               className={`md:hidden px-4 py-3 rounded-xl font-bold text-left transition-all whitespace-nowrap flex items-center gap-3 shrink-0
                 ${selectedCategory === 'Settings' 
                   ? categoryActiveBtnClass
@@ -253,11 +878,34 @@ const App: React.FC = () => {
               <Settings size={20} />
               <span>Settings</span>
             </button>
+
+            {/* Mobile Only Profile Button */}
+            <button
+              onClick={() => setIsProfilePickerOpen(true)}
+              className={`md:hidden px-4 py-3 rounded-xl font-bold text-left transition-all whitespace-nowrap flex items-center gap-3 shrink-0 ${categoryInactiveBtnClass}`}
+            >
+              <span className="text-xl leading-none">{activeProfile.emoji}</span>
+              <span>{activeProfile.name}</span>
+            </button>
           </div>
 
-          {/* Desktop Only Settings & Alarm */}
+          {/* Desktop Only Conversation, Alarm, Settings & Profile */}
           <div className={`hidden md:flex flex-col border-t p-2 space-y-2 ${isHighContrast ? 'border-yellow-600' : 'border-slate-200 bg-slate-100'}`}>
             
+            <button
+              onClick={() => setIsConversationOpen(prev => !prev)}
+              className={`px-4 py-4 rounded-xl font-bold text-left transition-all flex items-center gap-3
+                ${isConversationOpen
+                  ? categoryActiveBtnClass
+                  : `bg-transparent ${isHighContrast ? 'text-yellow-500 hover:text-yellow-300' : 'text-slate-600 hover:bg-slate-200'}`
+                }
+              `}
+              title="Talk with someone: their speech is shown here and your sentences are spoken aloud"
+            >
+              <MessageCircle size={20} />
+              <span>Conversation</span>
+            </button>
+
              <button
               onClick={playEmergencyAlert}
               className={`px-4 py-4 rounded-xl font-bold text-left transition-all flex items-center gap-3 ${alertBtnClass}`}
@@ -267,7 +915,7 @@ const App: React.FC = () => {
             </button>
 
             <button
-              onClick={() => setSelectedCategory('Settings')}
+              onClick={() => selectCategory('Settings')}
               className={`px-4 py-4 rounded-xl font-bold text-left transition-all flex items-center gap-3
                 ${selectedCategory === 'Settings' 
                   ? categoryActiveBtnClass
@@ -278,26 +926,118 @@ const App: React.FC = () => {
               <Settings size={20} />
               <span>Settings</span>
             </button>
+
+            <button
+              onClick={() => setIsProfilePickerOpen(true)}
+              className={`px-4 py-4 rounded-xl font-bold text-left transition-all flex items-center gap-3 bg-transparent
+                ${isHighContrast ? 'text-yellow-500 hover:text-yellow-300' : 'text-slate-600 hover:bg-slate-200'}
+              `}
+              title="Switch profile"
+            >
+              <span className="text-xl leading-none">{activeProfile.emoji}</span>
+              <span className="truncate">{activeProfile.name}</span>
+            </button>
           </div>
 
         </div>
 
         {/* Dynamic Main View */}
-        <div className={`flex-1 overflow-y-auto relative ${isHighContrast ? 'bg-black' : 'bg-slate-50'}`}>
+        <div data-scan-region="Board" className={`flex-1 overflow-y-auto relative ${isFittedGrid ? 'flex flex-col' : ''} ${isHighContrast ? 'bg-black' : 'bg-slate-50'}`}>
+           {/* Predicted next words */}
+           {isBoardCategory && !isEditMode && (
+             <PredictionBar
+               model={predictionModel}
+               vocabulary={boardVocabulary}
+               sentence={sentence}
+               onSelect={handleTileClick}
+               settings={userSettings}
+             />
+           )}
+
+           {/* Board Editor Toolbar */}
+           {isBoardCategory && (
+             <div className="sticky top-0 z-30 flex items-start gap-2 px-4 pt-4 pointer-events-none">
+               {/* Breadcrumb for nested folders */}
+               {boardHistory.length > 0 && (
+                 <nav className={`pointer-events-auto flex items-center gap-1 flex-wrap px-2 py-1 rounded-xl shadow-sm border text-sm font-bold
+                   ${isHighContrast ? 'bg-black border-yellow-600 text-yellow-400' : 'bg-white border-slate-200 text-slate-600'}
+                 `}>
+                   <button onClick={goBack} className="p-2 rounded-lg hover:bg-slate-100/20" aria-label="Go back">
+                     <ArrowLeft size={16} />
+                   </button>
+                   {boardHistory.map((boardId, index) => (
+                     <React.Fragment key={`${boardId}-${index}`}>
+                       <button onClick={() => goToBreadcrumb(index)} className="px-2 py-1 rounded-lg hover:underline">
+                         {getBoardLabel(vocabularyOverlay, boardId)}
+                       </button>
+                       <ChevronRight size={14} className="opacity-50" />
+                     </React.Fragment>
+                   ))}
+                   <span className="px-2 py-1">{getBoardLabel(vocabularyOverlay, selectedCategory)}</span>
+                 </nav>
+               )}
+               <div className="flex-1" />
+               {isEditMode && (
+                 <button
+                   data-scan-skip
+                   data-dwell-free
+                   onClick={() => setIsGridLayoutOpen(true)}
+                   className="pointer-events-auto px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2 shadow-sm bg-white text-slate-500 hover:text-blue-600 hover:bg-blue-50 border border-slate-200 transition-colors"
+                 >
+                   <LayoutGrid size={16} />
+                   Layout
+                 </button>
+               )}
+               {isEditMode && (
+                 <button
+                   data-scan-skip
+                   data-dwell-free
+                   onClick={() => setIsResetBoardOpen(true)}
+                   className="pointer-events-auto px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2 shadow-sm bg-white text-slate-500 hover:text-red-500 hover:bg-red-50 border border-slate-200 transition-colors"
+                 >
+                   <RotateCcw size={16} />
+                   Reset Board
+                 </button>
+               )}
+               <button
+                 data-scan-skip
+                 data-dwell-free
+                 onClick={() => setIsEditMode(prev => !prev)}
+                 disabled={!isEditMode && !isProfileLoaded}
+                 className={`pointer-events-auto px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2 shadow-sm transition-colors disabled:opacity-50
+                   ${isEditMode 
+                     ? 'bg-blue-600 text-white hover:bg-blue-700' 
+                     : (isHighContrast ? 'bg-black text-yellow-400 border border-yellow-600' : 'bg-white text-slate-600 hover:bg-slate-100 border border-slate-200')}
+                 `}
+               >
+                 <Pencil size={16} />
+                 {isEditMode ? 'Done Editing' : 'Edit Board'}
+               </button>
+             </div>
+           )}
+
            {selectedCategory === 'Keyboard' ? (
              <KeyboardView onAddTile={handleTileClick} />
+           ) : selectedCategory === 'Scene' ? (
+             <SceneTilesView onAddTile={handleTileClick} settings={userSettings} />
            ) : selectedCategory === 'Saved' ? (
              <SavedPhrasesView 
                 savedTiles={savedTiles}
                 onAddTile={handleTileClick} 
                 onDeleteTile={handleDeleteSavedPhrase}
-                onSwitchToKeyboard={() => setSelectedCategory('Keyboard')}
+                onSwitchToKeyboard={() => selectCategory('Keyboard')}
                 settings={userSettings}
              />
            ) : selectedCategory === 'Settings' ? (
              <SettingsView 
                settings={userSettings}
-               onSettingsChange={setUserSettings}
+               vocabulary={vocabulary}
+               boards={listBoards(VOCABULARY, vocabularyOverlay)}
+               profile={{ settings: userSettings, savedTiles, pinnedTiles, vocabulary: vocabularyOverlay, history: utteranceHistory }}
+               defaultSettings={activeProfile.defaultSettings}
+               onSettingsChange={handleSettingsChange}
+               onImportBoards={handleImportBoards}
+               onRestoreProfile={handleRestoreProfile}
              />
            ) : selectedCategory === 'General' ? (
              // Special Layout for General Tab to show Pinned items
@@ -305,26 +1045,17 @@ const App: React.FC = () => {
                 {/* Standard General Folders */}
                 <div>
                   <h3 className={`text-sm font-bold uppercase tracking-wider mb-3 px-1 ${isHighContrast ? 'text-yellow-600' : 'text-slate-400'}`}>Categories</h3>
-                  <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
-                    {VOCABULARY['General']?.map((tile) => (
-                      <Tile 
-                        key={tile.id} 
-                        data={tile} 
-                        onClick={handleTileClick}
-                        settings={userSettings} 
-                      />
-                    ))}
-                  </div>
+                  {renderTileGrid('General', false)}
                 </div>
 
                 {/* Pinned Tiles Section */}
-                {pinnedTiles.length > 0 && (
+                {pinnedTiles.length > 0 && !isEditMode && (
                   <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
                     <h3 className={`text-sm font-bold uppercase tracking-wider mb-3 px-1 flex items-center gap-2 ${isHighContrast ? 'text-yellow-600' : 'text-slate-400'}`}>
                       <Pin size={16} className={isHighContrast ? "text-yellow-500" : "text-blue-500"} /> 
                       Pinned Tiles
                     </h3>
-                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
+                    <RovingGrid className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4" aria-label="Pinned tiles">
                       {pinnedTiles.map((tile) => (
                         <Tile 
                           key={`pinned-${tile.id}`} 
@@ -333,25 +1064,17 @@ const App: React.FC = () => {
                           settings={userSettings}
                           isPinned={true}
                           onTogglePin={() => handleTogglePin(tile)}
+                          onLongPress={hasInflections(tile) ? setInflectingTile : undefined}
                         />
                       ))}
-                    </div>
+                    </RovingGrid>
                   </div>
                 )}
              </div>
            ) : (
              // Standard Category View
-             <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 p-4 pb-20">
-               {VOCABULARY[selectedCategory]?.map((tile) => (
-                 <Tile 
-                   key={tile.id} 
-                   data={tile} 
-                   onClick={handleTileClick}
-                   settings={userSettings}
-                   isPinned={pinnedTiles.some(p => p.id === tile.id)}
-                   onTogglePin={() => handleTogglePin(tile)}
-                 />
-               ))}
+             <div className={isFittedGrid ? 'p-4 flex-1 min-h-0' : 'p-4 pb-20'}>
+               {renderTileGrid(selectedCategory, true, true)}
              </div>
            )}
         </div>
@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, Trash2 } from 'lucide-react';
+import { BoardDefinition } from '../types';
+
+interface BoardEditorModalProps {
+  isOpen: boolean;
+  board: BoardDefinition | null; // null when creating a new board
+  onClose: () => void;
+  onSave: (board: BoardDefinition) => void;
+  onDelete: (board: BoardDefinition) => void;
+}
+
+const BoardEditorModal: React.FC<BoardEditorModalProps> = ({ isOpen, board, onClose, onSave, onDelete }) => {
+  const [label, setLabel] = useState('');
+  const [emoji, setEmoji] = useState('📁');
+  const [showInSidebar, setShowInSidebar] = useState(true);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLabel(board?.label || '');
+      setEmoji(board?.emoji || '📁');
+      setShowInSidebar(board ? board.showInSidebar : true);
+    }
+  }, [isOpen, board]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+    onSave({ id: board?.id || '', label: label.trim(), emoji, showInSidebar });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <h3 className="text-xl font-bold text-slate-800">{board ? 'Edit Category' : 'New Category'}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="grid grid-cols-[80px_1fr] gap-3 mb-4">
+            <div>
+              <label className="block text-sm font-semibold text-slate-600 mb-2">Emoji</label>
+              <input
+                type="text"
+                value={emoji}
+                onChange={(e) => setEmoji(e.target.value)}
+                className="w-full text-lg p-3 border-2 border-slate-200 rounded-xl focus:border-blue-500 outline-none text-center"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-600 mb-2">Name</label>
+              <input
+                autoFocus
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="w-full text-lg p-3 border-2 border-slate-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 outline-none transition-all"
+                placeholder="e.g., Snacks"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-3 mb-6 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showInSidebar}
+              onChange={(e) => setShowInSidebar(e.target.checked)}
+              className="w-5 h-5 accent-blue-600"
+            />
+            <span className="text-sm font-semibold text-slate-600">Show in the sidebar (otherwise only reachable through folder tiles)</span>
+          </label>
+
+          <div className="flex gap-3">
+            {board && (
+              <button
+                type="button"
+                onClick={() => onDelete(board)}
+                className="py-3 px-4 rounded-xl font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-colors"
+                title="Delete category"
+              >
+                <Trash2 size={20} />
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-3 px-4 rounded-xl font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!label.trim()}
+              className="flex-1 py-3 px-4 rounded-xl font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+            >
+              <Save size={20} />
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BoardEditorModal;
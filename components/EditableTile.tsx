@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { TileData, UserSettings } from '../types';
+import Tile from './Tile';
+import { Pencil, GripVertical, FolderOpen, EyeOff, Lock } from 'lucide-react';
+import { isTileLocked } from '../services/vocabulary';
+
+interface EditableTileProps {
+  data: TileData;
+  settings: UserSettings;
+  onEdit: (tile: TileData) => void;
+  onReorder: (fromId: string, toId: string) => void;
+  onOpenFolder?: (boardId: string) => void;
+  fillCell?: boolean; // Fill a fixed-grid cell
+}
+
+export const DRAG_MIME = 'application/x-voicebridge-tile';
+
+/**
+ * Tile wrapper used by the board editor. Clicking opens the editor instead of
+ * speaking, and tiles can be dragged onto one another to reorder them.
+ */
+const EditableTile: React.FC<EditableTileProps> = ({ data, settings, onEdit, onReorder, onOpenFolder, fillCell }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const isEditable = !data.isNavigation;
+  const isHidden = data.visibility === 'hidden';
+  const isLocked = isTileLocked(data, settings.vocabularyLevel);
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(DRAG_MIME, data.id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(DRAG_MIME)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const fromId = e.dataTransfer.getData(DRAG_MIME);
+    if (fromId && fromId !== data.id) onReorder(fromId, data.id);
+  };
+
+  return (
+    <div
+      draggable
+      onDragStart={handleDragStart}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`relative rounded-xl cursor-move transition-all ${fillCell ? 'h-full' : ''} ${isDragOver ? 'ring-4 ring-blue-400 scale-95' : ''}`}
+    >
+      {/* Disable the tile's own interactions while editing */}
+      <div className={`pointer-events-none ${isHidden ? 'opacity-40' : 'opacity-90'} ${fillCell ? 'h-full' : ''}`}>
+        <Tile data={data} onClick={() => {}} settings={settings} fillCell={fillCell} />
+      </div>
+
+      {(isHidden || isLocked) && (
+        <div className="absolute bottom-2 right-2 z-20 px-2 py-1 rounded-lg bg-slate-800 text-white text-xs font-bold shadow-sm flex items-center gap-1">
+          {isHidden ? <><EyeOff size={14} /> Hidden</> : <><Lock size={14} /> Level {data.level}</>}
+        </div>
+      )}
+
+      <div className="absolute top-2 left-2 p-1 rounded-md bg-white/80 text-slate-500 shadow-sm z-20">
+        <GripVertical size={16} />
+      </div>
+
+      {isEditable && (
+        <button
+          onClick={() => onEdit(data)}
+          className="absolute inset-0 z-10 flex items-start justify-end p-2 rounded-xl border-2 border-dashed border-blue-400 hover:bg-blue-500/10 transition-colors"
+          aria-label={`Edit ${data.label}`}
+        >
+          <span className="p-1.5 rounded-full bg-blue-600 text-white shadow-sm">
+            <Pencil size={16} />
+          </span>
+        </button>
+      )}
+
+      {/* Folders stay navigable while editing so nested boards can be reached */}
+      {data.linkTo && onOpenFolder && (
+        <button
+          onClick={() => onOpenFolder(data.linkTo!)}
+          className="absolute bottom-2 left-2 z-20 px-2 py-1 rounded-lg bg-white text-blue-600 text-xs font-bold shadow-sm border border-blue-200 flex items-center gap-1 hover:bg-blue-50"
+        >
+          <FolderOpen size={14} /> Open
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EditableTile;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { GridPosition } from '../types';
+import { DRAG_MIME } from './EditableTile';
+
+interface EmptyGridCellProps {
+  position: GridPosition;
+  onAdd: (position: GridPosition) => void;
+  onDropTile: (tileId: string, position: GridPosition) => void;
+}
+
+/**
+ * A free cell on a fixed-grid board in edit mode. Click to add a tile here, or
+ * drop an existing tile onto it to move it.
+ */
+const EmptyGridCell: React.FC<EmptyGridCellProps> = ({ position, onAdd, onDropTile }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(DRAG_MIME)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const tileId = e.dataTransfer.getData(DRAG_MIME);
+    if (tileId) onDropTile(tileId, position);
+  };
+
+  return (
+    <button
+      onClick={() => onAdd(position)}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`w-full h-full min-h-[4rem] flex items-center justify-center rounded-xl border-2 border-dashed transition-all
+        ${isDragOver ? 'border-blue-500 bg-blue-50 text-blue-500' : 'border-slate-200 text-slate-300 hover:text-blue-500 hover:border-blue-400 hover:bg-blue-50'}
+      `}
+      aria-label={`Add a tile at row ${position.row + 1}, column ${position.column + 1}`}
+    >
+      <Plus size={24} />
+    </button>
+  );
+};
+
+export default EmptyGridCell;
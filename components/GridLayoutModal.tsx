@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { X, Save, LayoutGrid } from 'lucide-react';
+import { BoardLayout } from '../types';
+import { MAX_GRID_SIZE } from '../services/vocabulary';
+
+interface GridLayoutModalProps {
+  isOpen: boolean;
+  boardLabel: string;
+  layout?: BoardLayout; // Undefined while the board reflows to fit the screen
+  tileCount: number;
+  onClose: () => void;
+  onSave: (size: { rows: number; columns: number } | null) => void;
+}
+
+const DEFAULT_SIZE = { rows: 4, columns: 5 };
+
+const clampSize = (value: number) => Math.min(MAX_GRID_SIZE, Math.max(1, Math.round(value) || 1));
+
+const GridLayoutModal: React.FC<GridLayoutModalProps> = ({ isOpen, boardLabel, layout, tileCount, onClose, onSave }) => {
+  const [isFixed, setIsFixed] = useState(false);
+  const [rows, setRows] = useState(DEFAULT_SIZE.rows);
+  const [columns, setColumns] = useState(DEFAULT_SIZE.columns);
+
+  useEffect(() => {
+    if (isOpen) {
+      setIsFixed(!!layout);
+      setRows(layout?.rows || Math.max(DEFAULT_SIZE.rows, Math.ceil(tileCount / DEFAULT_SIZE.columns)));
+      setColumns(layout?.columns || DEFAULT_SIZE.columns);
+    }
+  }, [isOpen, layout, tileCount]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(isFixed ? { rows: clampSize(rows), columns: clampSize(columns) } : null);
+  };
+
+  const overflow = tileCount - rows * columns;
+  const optionClass = (selected: boolean) => `p-3 rounded-xl border-2 text-left transition-all ${selected ? 'border-blue-500 bg-blue-50' : 'border-slate-200 bg-slate-50 hover:border-blue-300'}`;
+  const inputClass = "w-full text-lg p-3 border-2 border-slate-200 rounded-xl focus:border-blue-500 outline-none text-center";
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <LayoutGrid size={22} className="text-blue-600" />
+            {boardLabel} Layout
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <button type="button" onClick={() => setIsFixed(false)} className={optionClass(!isFixed)}>
+              <span className="font-bold text-slate-700 block">Fit to Screen</span>
+              <span className="text-xs text-slate-500">Tiles rearrange as the window changes size</span>
+            </button>
+            <button type="button" onClick={() => setIsFixed(true)} className={optionClass(isFixed)}>
+              <span className="font-bold text-slate-700 block">Fixed Grid</span>
+              <span className="text-xs text-slate-500">Every tile keeps its place; tiles resize instead</span>
+            </button>
+          </div>
+
+          {isFixed && (
+            <div className="mb-6">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-semibold text-slate-600 mb-2">Rows</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_GRID_SIZE}
+                    value={rows}
+                    onChange={(e) => setRows(clampSize(Number(e.target.value)))}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-600 mb-2">Columns</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_GRID_SIZE}
+                    value={columns}
+                    onChange={(e) => setColumns(clampSize(Number(e.target.value)))}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-400 mt-2">
+                {overflow > 0
+                  ? `${overflow} tile${overflow === 1 ? " doesn't" : "s don't"} fit; extra rows will be added below.`
+                  : `${rows * columns - tileCount} empty cell${rows * columns - tileCount === 1 ? '' : 's'}. In edit mode, drag tiles between cells or tap an empty cell to add one.`}
+              </p>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-3 px-4 rounded-xl font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 py-3 px-4 rounded-xl font-semibold text-white bg-blue-600 hover:bg-blue-700 transition-colors flex items-center justify-center gap-2"
+            >
+              <Save size={20} />
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default GridLayoutModal;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { X, Shapes } from 'lucide-react';
+import { TileData, UserSettings } from '../types';
+import Tile from './Tile';
+import { getInflections } from '../services/morphology';
+
+interface InflectionModalProps {
+  tile: TileData | null; // The long-pressed tile, or null when closed
+  onClose: () => void;
+  onSelect: (tile: TileData) => void;
+  settings: UserSettings;
+}
+
+const InflectionModal: React.FC<InflectionModalProps> = ({ tile, onClose, onSelect, settings }) => {
+  if (!tile) return null;
+
+  // The original form comes first so it can still be chosen
+  const forms = [tile, ...getInflections(tile)];
+
+  const handleSelect = (form: TileData) => {
+    onSelect(form);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100 bg-slate-50">
+          <div className="flex items-center gap-2 text-slate-700">
+            <Shapes size={24} />
+            <h3 className="text-xl font-bold">Word Forms</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-200 rounded-full transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-wrap justify-center gap-2">
+          {forms.map((form) => (
+            <Tile key={form.id} data={form} onClick={handleSelect} variant="small" settings={settings} />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InflectionModal;
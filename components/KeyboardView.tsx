@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import { TileData } from '../types';
 import { Delete, Eraser, Check, Space, Image as ImageIcon } from 'lucide-react';
 import { generateTileImage } from '../services/gemini';
+import RovingGrid from './RovingGrid';
 
 interface KeyboardViewProps {
   onAddTile: (tile: TileData) => void;
@@ -70,7 +71,7 @@ const KeyboardView: React.FC<KeyboardViewProps> = ({ onAddTile }) => {
   const actionTile = `${tileBase} text-xl md:text-2xl font-bold uppercase tracking-wider`;
 
   return (
-    <div className="flex flex-col h-full bg-slate-50 p-2 md:p-4 gap-2 md:gap-3 overflow-hidden">
+    <div data-touch-filter className="flex flex-col h-full bg-slate-50 p-2 md:p-4 gap-2 md:gap-3 overflow-hidden">
       
       {/* Input & Generation Area */}
       <div className="flex flex-col md:flex-row gap-3 shrink-0">
@@ -135,12 +136,13 @@ const KeyboardView: React.FC<KeyboardViewProps> = ({ onAddTile }) => {
       </div>
 
       {/* Keyboard Grid */}
-      <div className="flex-1 flex flex-col gap-2 md:gap-3 pb-safe">
+      <RovingGrid className="flex-1 flex flex-col gap-2 md:gap-3 pb-safe" data-scan-region="Keyboard" aria-label="Keyboard">
         {rows.map((row, rowIndex) => (
           <div key={rowIndex} className="flex-1 flex gap-2 md:gap-3 w-full">
             {row.map((char) => (
               <button
                 key={char}
+                data-grid-item
                 onClick={() => handleKeyPress(char)}
                 className={charTile}
               >
@@ -153,6 +155,7 @@ const KeyboardView: React.FC<KeyboardViewProps> = ({ onAddTile }) => {
         {/* Bottom Action Row */}
         <div className="flex-1 flex gap-2 md:gap-3 w-full">
           <button
+            data-grid-item
             onClick={handleBackspace}
             className={`${actionTile} bg-red-100 border-red-300 text-red-600 max-w-[20%]`}
             aria-label="Backspace"
@@ -161,6 +164,7 @@ const KeyboardView: React.FC<KeyboardViewProps> = ({ onAddTile }) => {
           </button>
           
           <button
+            data-grid-item
             onClick={handleSpace}
             className={`${actionTile} bg-slate-100 border-slate-300 text-slate-600 hover:bg-slate-200`}
           >
@@ -168,6 +172,7 @@ const KeyboardView: React.FC<KeyboardViewProps> = ({ onAddTile }) => {
           </button>
 
           <button
+            data-grid-item
             onClick={handleAdd}
             disabled={!text.trim()}
             className={`${actionTile} bg-blue-500 border-blue-700 text-white max-w-[25%] hover:bg-blue-600 disabled:opacity-50 disabled:grayscale`}
@@ -178,7 +183,7 @@ const KeyboardView: React.FC<KeyboardViewProps> = ({ onAddTile }) => {
             </div>
           </button>
         </div>
-      </div>
+      </RovingGrid>
     </div>
   );
 };
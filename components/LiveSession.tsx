@@ -1,307 +1,214 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { getGeminiClient, createPcmBlob, blobToBase64 } from '../services/gemini';
-import { LiveServerMessage, Modality } from '@google/genai';
-import { Mic, Video, VideoOff, PhoneOff, User, MessageCircle } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, PhoneOff, User, Volume2, Download, Trash2, RefreshCw, Video, VideoOff } from 'lucide-react';
+import { UserSettings } from '../types';
+import { ConversationModeState } from '../hooks/useLiveConversation';
+import { formatTranscript, formatTranscriptTime, LiveConnectionState, MAX_RECONNECT_ATTEMPTS } from '../services/liveConversation';
+import { downloadBlob, datedFilename } from '../services/files';
 
 interface LiveSessionProps {
+  conversation: ConversationModeState;
+  settings: UserSettings;
   onClose: () => void;
 }
 
-const LiveSession: React.FC<LiveSessionProps> = ({ onClose }) => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [isVideoEnabled, setIsVideoEnabled] = useState(false);
-  const [transcription, setTranscription] = useState<string>("");
-  const [isSpeaking, setIsSpeaking] = useState(false); // Model is speaking
-
-  // Audio Contexts
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
-  const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-
-  // Video Refs
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const frameIntervalRef = useRef<number | null>(null);
-
-  // Session
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
-  const cleanupRef = useRef<() => void>(() => {});
-
-  // Helper: Decode Audio Data (Duplicated from service to keep component self-contained for audio processing flow)
-  const decode = (base64: string) => {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-  };
-
-  const decodeAudioData = async (
-    data: Uint8Array,
-    ctx: AudioContext,
-    sampleRate: number,
-    numChannels: number,
-  ): Promise<AudioBuffer> => {
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length / numChannels;
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-    for (let channel = 0; channel < numChannels; channel++) {
-      const channelData = buffer.getChannelData(channel);
-      for (let i = 0; i < frameCount; i++) {
-        channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-      }
-    }
-    return buffer;
-  };
-
-  const startSession = useCallback(async () => {
-    try {
-      setError(null);
-      const ai = getGeminiClient();
-
-      // Initialize Audio Contexts
-      inputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+const statusLabel = ({ status, attempt }: LiveConnectionState) => {
+  switch (status) {
+    case 'connecting': return attempt > 0 ? `Reconnecting (${attempt}/${MAX_RECONNECT_ATTEMPTS})...` : 'Connecting...';
+    case 'connected': return 'Conversation Active';
+    case 'reconnecting': return `Connection lost, retrying (${attempt}/${MAX_RECONNECT_ATTEMPTS})`;
+    case 'failed': return 'Could not reconnect';
+    default: return 'Disconnected';
+  }
+};
 
-      // Connect to Live API
-      sessionPromiseRef.current = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: `
-            You are a helpful and empathetic companion for a mute individual. 
-            They cannot speak, but they can hear you. 
-            Act as their voice and friend. 
-            If you see the camera feed, describe what you see or answer questions about it.
-            Keep responses concise and supportive.
-          `,
-        },
-        callbacks: {
-          onopen: async () => {
-            console.log('Session Opened');
-            setIsConnected(true);
+const VIDEO_FRAME_MS = 1000; // 1 FPS is plenty for context and keeps bandwidth low
+const VIDEO_FRAME_MAX_SIZE = 640;
 
-            // Start Mic Stream
-            try {
-              const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-              if (inputAudioContextRef.current) {
-                const source = inputAudioContextRef.current.createMediaStreamSource(stream);
-                const scriptProcessor = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-                
-                scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                  const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                  const pcmBlob = createPcmBlob(inputData);
-                  
-                  if (sessionPromiseRef.current) {
-                    sessionPromiseRef.current.then((session) => {
-                       session.sendRealtimeInput({ media: pcmBlob });
-                    });
-                  }
-                };
+const STATUS_DOT_CLASSES = {
+  idle: 'bg-slate-400',
+  connecting: 'bg-amber-400 animate-pulse',
+  connected: 'bg-green-500 animate-pulse',
+  reconnecting: 'bg-amber-400',
+  failed: 'bg-red-500',
+  closed: 'bg-slate-400',
+};
 
-                source.connect(scriptProcessor);
-                scriptProcessor.connect(inputAudioContextRef.current.destination);
-                
-                // Save cleanup for mic
-                const prevCleanup = cleanupRef.current;
-                cleanupRef.current = () => {
-                   prevCleanup();
-                   stream.getTracks().forEach(track => track.stop());
-                   scriptProcessor.disconnect();
-                   source.disconnect();
-                }
-              }
-            } catch (err) {
-              console.error("Mic Error", err);
-              setError("Could not access microphone.");
-            }
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            // Audio Output
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && outputAudioContextRef.current) {
-              setIsSpeaking(true);
-              const ctx = outputAudioContextRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              
-              const audioBuffer = await decodeAudioData(
-                decode(base64Audio),
-                ctx,
-                24000,
-                1
-              );
-              
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(ctx.destination);
-              
-              source.addEventListener('ended', () => {
-                sourcesRef.current.delete(source);
-                if (sourcesRef.current.size === 0) setIsSpeaking(false);
-              });
+/**
+ * Partner-conversation panel shown above the board: live captions for both
+ * speakers with a scrolling history. The user answers with the sentence strip,
+ * which speaks into the conversation while it is open. The camera can be shared
+ * with the session as a 1 FPS stream of frames.
+ */
+const LiveSession: React.FC<LiveSessionProps> = ({ conversation, settings, onClose }) => {
+  const { connection, transcript, isPartnerTalking, isSpeaking, isMuted, clearTranscript } = conversation;
+  const { status, error } = connection;
+  const isConnected = status === 'connected';
+  const canRetry = status === 'reconnecting' || status === 'failed';
+  const isHighContrast = settings.accessibility?.highContrast;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isVideoEnabled, setIsVideoEnabled] = useState(false);
+  const [videoError, setVideoError] = useState<string | null>(null);
+  const { sendVideoFrame } = conversation;
 
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
+  // Keep the newest caption in view
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [transcript]);
 
-            // Interruption handling
-            if (message.serverContent?.interrupted) {
-               sourcesRef.current.forEach(src => src.stop());
-               sourcesRef.current.clear();
-               nextStartTimeRef.current = 0;
-               setIsSpeaking(false);
-            }
-          },
-          onclose: () => {
-            setIsConnected(false);
-            console.log('Session Closed');
-          },
-          onerror: (err) => {
-            console.error(err);
-            setError("Connection error occurred.");
-            setIsConnected(false);
-          }
+  // Stream camera frames while video is on; the camera is released when it's turned off or the panel closes
+  useEffect(() => {
+    if (!isVideoEnabled) return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    const canvas = document.createElement('canvas');
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      const ctx = canvas.getContext('2d');
+      if (!video || !ctx || !video.videoWidth) return;
+      const scale = Math.min(1, VIDEO_FRAME_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      sendVideoFrame(canvas.toDataURL('image/jpeg', 0.5).split(',')[1]);
+    }, VIDEO_FRAME_MS);
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
         }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch((e) => {
+        console.error("Camera error", e);
+        if (cancelled) return;
+        setVideoError('Could not access camera.');
+        setIsVideoEnabled(false);
       });
-
-    } catch (e: any) {
-      console.error(e);
-      setError(e.message || "Failed to start session.");
-    }
-  }, []);
-
-  useEffect(() => {
-    startSession();
     return () => {
-      // Cleanup on unmount
-      cleanupRef.current();
-      // Close session context
-      if (inputAudioContextRef.current) inputAudioContextRef.current.close();
-      if (outputAudioContextRef.current) outputAudioContextRef.current.close();
+      cancelled = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [isVideoEnabled, sendVideoFrame]);
 
-  // Video Streaming Logic
-  const startVideo = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.play();
-        setIsVideoEnabled(true);
-
-        const ctx = canvasRef.current?.getContext('2d');
-        if (canvasRef.current && ctx && videoRef.current) {
-           frameIntervalRef.current = window.setInterval(() => {
-             if (videoRef.current && canvasRef.current && sessionPromiseRef.current) {
-               canvasRef.current.width = videoRef.current.videoWidth;
-               canvasRef.current.height = videoRef.current.videoHeight;
-               ctx.drawImage(videoRef.current, 0, 0);
-               canvasRef.current.toBlob(async (blob) => {
-                 if (blob) {
-                   const base64Data = await blobToBase64(blob);
-                   sessionPromiseRef.current?.then(session => {
-                      session.sendRealtimeInput({
-                        media: { data: base64Data, mimeType: 'image/jpeg' }
-                      });
-                   });
-                 }
-               }, 'image/jpeg', 0.5);
-             }
-           }, 1000); // 1 FPS for efficiency
-        }
-      }
-    } catch (e) {
-      console.error(e);
-      setError("Could not access camera.");
-    }
+  const toggleVideo = () => {
+    setVideoError(null);
+    setIsVideoEnabled(prev => !prev);
   };
 
-  const stopVideo = () => {
-    if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
-    if (videoRef.current && videoRef.current.srcObject) {
-      const stream = videoRef.current.srcObject as MediaStream;
-      stream.getTracks().forEach(t => t.stop());
-      videoRef.current.srcObject = null;
-    }
-    setIsVideoEnabled(false);
+  const handleSave = () => {
+    const blob = new Blob([formatTranscript(transcript)], { type: 'text/plain' });
+    downloadBlob(blob, datedFilename('conversation', 'txt'));
   };
 
+  const captionStyle = { fontSize: `${Math.max(18, settings.textSize)}px`, lineHeight: 1.3 };
+  const toolButtonClass = `p-3 rounded-xl font-bold flex items-center gap-2 transition-colors disabled:opacity-40
+    ${isHighContrast ? 'bg-black border-2 border-yellow-400 text-yellow-400 hover:bg-slate-900' : 'bg-white/10 hover:bg-white/20'}
+  `;
+
   return (
-    <div className="flex flex-col h-full bg-slate-900 text-white rounded-xl overflow-hidden relative">
-      {/* Header */}
-      <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center z-20 bg-gradient-to-b from-black/70 to-transparent">
-        <div className="flex items-center gap-2">
-          <div className={`w-3 h-3 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`} />
-          <span className="font-semibold text-sm tracking-wide">
-             {isConnected ? 'Gemini Live Active' : 'Connecting...'}
-          </span>
+    <div
+      data-scan-region="Conversation"
+      className={`shrink-0 flex flex-col border-b ${isHighContrast ? 'bg-black border-yellow-600 text-yellow-400' : 'bg-slate-900 border-slate-800 text-white'}`}
+    >
+      {/* Status & Controls */}
+      <div className="flex items-center gap-3 px-4 py-2">
+        <div className={`relative flex items-center justify-center w-10 h-10 rounded-full border-2 transition-colors
+          ${isSpeaking ? 'border-blue-400 bg-blue-500/20' : isPartnerTalking ? 'border-green-400 bg-green-500/20' : 'border-slate-600 bg-slate-700/50'}
+        `}>
+          {(isSpeaking || isPartnerTalking) && <div className={`absolute inset-0 rounded-full opacity-20 animate-ping ${isSpeaking ? 'bg-blue-400' : 'bg-green-400'}`} />}
+          {isSpeaking
+            ? <Volume2 size={20} className="text-blue-300" />
+            : isMuted ? <MicOff size={20} className="text-red-300" /> : <Mic size={20} className={isConnected ? 'text-green-400' : 'text-slate-400'} />}
         </div>
-        <button onClick={onClose} className="p-2 bg-white/10 rounded-full hover:bg-white/20 backdrop-blur-md">
-          <PhoneOff size={20} className="text-red-400" />
-        </button>
-      </div>
-
-      {/* Main Visual Area */}
-      <div className="flex-1 flex flex-col items-center justify-center relative bg-slate-800">
-        
-        {/* Video Background */}
-        <video 
-           ref={videoRef} 
-           className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-500 ${isVideoEnabled ? 'opacity-100' : 'opacity-0'}`} 
-           muted 
-           playsInline
-        />
-        
-        {/* Helper Canvas for Frame Capture (Hidden) */}
-        <canvas ref={canvasRef} className="hidden" />
-
-        {/* Avatar / Visualizer (Visible when no video or as overlay) */}
-        <div className={`z-10 flex flex-col items-center justify-center transition-all duration-300 ${isVideoEnabled ? 'scale-75 translate-y-24 bg-black/40 p-6 rounded-3xl backdrop-blur-md' : 'scale-100'}`}>
-           <div className={`relative flex items-center justify-center w-32 h-32 rounded-full border-4 transition-colors duration-300 ${isSpeaking ? 'border-blue-400 bg-blue-500/20' : 'border-slate-600 bg-slate-700/50'}`}>
-              <div className={`absolute inset-0 rounded-full bg-blue-400 opacity-20 ${isSpeaking ? 'animate-ping' : ''}`}></div>
-              {isSpeaking ? <MessageCircle size={48} className="text-blue-300" /> : <User size={48} className="text-slate-400" />}
-           </div>
-           <p className="mt-6 text-slate-300 font-medium text-center max-w-xs">
-             {isSpeaking ? "Gemini is speaking..." : "Listening..."}
-           </p>
+        <div className="flex items-center gap-2 min-w-0">
+          <div className={`w-2 h-2 rounded-full shrink-0 ${STATUS_DOT_CLASSES[status]}`} />
+          <span className="text-xs uppercase tracking-wider font-bold opacity-70 truncate" role="status">{statusLabel(connection)}</span>
         </div>
+        {(error || videoError) && <span className="text-sm font-medium text-red-300 truncate">{error || videoError}</span>}
 
-        {error && (
-          <div className="absolute bottom-32 px-4 py-2 bg-red-500/90 text-white rounded-lg text-sm font-medium z-20">
-            {error}
-          </div>
+        {canRetry && (
+          <button onClick={conversation.retry} className={toolButtonClass} title="Reconnect now">
+            <RefreshCw size={20} />
+            <span className="hidden md:inline">Retry</span>
+          </button>
         )}
 
+        <div className="flex-1" />
+        <button
+          onClick={toggleVideo}
+          className={toolButtonClass}
+          title={isVideoEnabled ? 'Stop sharing camera' : 'Share camera'}
+          aria-label={isVideoEnabled ? 'Stop sharing camera' : 'Share camera'}
+          aria-pressed={isVideoEnabled}
+        >
+          {isVideoEnabled ? <VideoOff size={20} /> : <Video size={20} />}
+        </button>
+        <button
+          onClick={conversation.toggleMute}
+          className={toolButtonClass}
+          title={isMuted ? 'Unmute microphone' : 'Mute microphone'}
+          aria-label={isMuted ? 'Unmute microphone' : 'Mute microphone'}
+          aria-pressed={isMuted}
+        >
+          {isMuted ? <MicOff size={20} /> : <Mic size={20} />}
+        </button>
+        <button onClick={handleSave} disabled={transcript.length === 0} className={toolButtonClass} title="Save transcript" aria-label="Save transcript">
+          <Download size={20} />
+        </button>
+        <button onClick={clearTranscript} disabled={transcript.length === 0} className={toolButtonClass} title="Clear transcript" aria-label="Clear transcript">
+          <Trash2 size={20} />
+        </button>
+        <button
+          onClick={onClose}
+          aria-label="End conversation"
+          className={`px-4 py-3 rounded-xl font-bold flex items-center gap-2 transition-colors
+            ${isHighContrast ? 'bg-black border-2 border-yellow-400 text-yellow-400 hover:bg-slate-900' : 'bg-white/10 text-red-300 hover:bg-white/20'}
+          `}
+        >
+          <PhoneOff size={20} />
+          <span className="hidden md:inline">End</span>
+        </button>
       </div>
 
-      {/* Controls */}
-      <div className="h-24 bg-slate-950 flex items-center justify-center gap-6 z-20 border-t border-slate-800">
-         <button 
-           className={`p-4 rounded-full transition-all ${isVideoEnabled ? 'bg-white text-slate-900' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
-           onClick={isVideoEnabled ? stopVideo : startVideo}
-         >
-           {isVideoEnabled ? <VideoOff size={24} /> : <Video size={24} />}
-         </button>
-         
-         <div className="w-[1px] h-8 bg-slate-800" />
-         
-         <div className="flex flex-col items-center">
-            <div className="bg-slate-800 p-3 rounded-full mb-1">
-              <Mic size={24} className="text-green-400" />
+      {isVideoEnabled && (
+        <div className="px-4 pb-2">
+          <video ref={videoRef} autoPlay playsInline muted className="h-32 rounded-xl object-cover bg-black" />
+        </div>
+      )}
+
+      {/* Captions */}
+      <div ref={scrollRef} className="max-h-[35vh] overflow-y-auto px-4 pb-3 space-y-2" aria-live="polite">
+        {transcript.length === 0 && (
+          <p className="opacity-50 font-semibold" style={captionStyle}>
+            {isConnected ? (isMuted ? 'Microphone muted' : 'Listening to your partner...') : ''}
+          </p>
+        )}
+        {transcript.map(entry => {
+          const isPartner = entry.speaker === 'partner';
+          return (
+            <div key={entry.id} className={`flex flex-col ${isPartner ? 'items-start' : 'items-end'}`}>
+              <span className="text-xs font-bold opacity-60 mb-0.5 flex items-center gap-1">
+                {isPartner && <User size={12} />}
+                {isPartner ? 'Partner' : 'Me'} · {formatTranscriptTime(entry.timestamp)}
+              </span>
+              <p
+                className={`max-w-[85%] px-4 py-2 rounded-2xl font-semibold ${entry.isFinal ? '' : 'opacity-70'}
+                  ${isHighContrast
+                    ? (isPartner ? 'bg-yellow-400 text-black' : 'border-2 border-yellow-400')
+                    : (isPartner ? 'bg-white text-slate-900 rounded-tl-sm' : 'bg-blue-600 text-white rounded-tr-sm')}
+                `}
+                style={captionStyle}
+              >
+                {entry.text}
+              </p>
             </div>
-            <span className="text-[10px] text-slate-500 uppercase tracking-wider font-bold">Mic On</span>
-         </div>
+          );
+        })}
       </div>
     </div>
   );
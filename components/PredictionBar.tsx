@@ -0,0 +1,41 @@
+import React, { useMemo } from 'react';
+import { TileData, UserSettings, Vocabulary } from '../types';
+import Tile from './Tile';
+import RovingGrid from './RovingGrid';
+import { Sparkles } from 'lucide-react';
+import { PredictionModel, predictNextTiles } from '../services/prediction';
+
+interface PredictionBarProps {
+  model: PredictionModel;
+  vocabulary: Vocabulary;
+  sentence: TileData[];
+  onSelect: (tile: TileData) => void;
+  settings: UserSettings;
+}
+
+const PredictionBar: React.FC<PredictionBarProps> = ({ model, vocabulary, sentence, onSelect, settings }) => {
+  const isHighContrast = settings.accessibility?.highContrast;
+
+  // Predictions follow the sentence as it is built
+  const predictions = useMemo(() => predictNextTiles(model, vocabulary, sentence), [model, vocabulary, sentence]);
+
+  if (predictions.length === 0) return null;
+
+  return (
+    <div className={`flex items-center gap-2 px-4 py-2 border-b
+      ${isHighContrast ? 'bg-black border-yellow-600' : 'bg-white border-slate-200'}
+    `}>
+      <div className={`shrink-0 flex flex-col items-center text-xs font-bold uppercase tracking-wider ${isHighContrast ? 'text-yellow-600' : 'text-slate-400'}`}>
+        <Sparkles size={18} />
+        <span>Next</span>
+      </div>
+      <RovingGrid className="flex-1 flex items-center overflow-x-auto no-scrollbar py-1" aria-label="Predicted next words">
+        {predictions.map((tile) => (
+          <Tile key={`prediction-${tile.id}`} data={tile} onClick={onSelect} variant="small" settings={settings} />
+        ))}
+      </RovingGrid>
+    </div>
+  );
+};
+
+export default PredictionBar;
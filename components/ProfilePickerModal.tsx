@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { X, Users, Plus, Lock, Unlock, Trash2, Check, ArrowLeft } from 'lucide-react';
+import { ProfileRegistry, UserProfile, UserSettings } from '../types';
+import { DEFAULT_SETTINGS, DEFAULT_PROFILE_ID, VOICE_OPTIONS } from '../constants';
+import { hashPin, verifyPin } from '../services/profiles';
+
+interface ProfilePickerModalProps {
+  registry: ProfileRegistry;
+  currentSettings: UserSettings;
+  onClose: () => void;
+  onSwitch: (profileId: string) => void;
+  onCreate: (profile: Omit<UserProfile, 'id'>) => void;
+  onDelete: (profileId: string) => void;
+  onSetPin: (pinHash: string | undefined) => void;
+}
+
+type Step = 'locked' | 'list' | 'create' | 'set-pin';
+
+const ProfilePickerModal: React.FC<ProfilePickerModalProps> = ({
+  registry,
+  currentSettings,
+  onClose,
+  onSwitch,
+  onCreate,
+  onDelete,
+  onSetPin
+}) => {
+  // Mounted only while open, so every opening starts locked if a switch PIN is set
+  const [step, setStep] = useState<Step>(() => (registry.switchPinHash ? 'locked' : 'list'));
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [emoji, setEmoji] = useState('🙂');
+  const [voiceName, setVoiceName] = useState(DEFAULT_SETTINGS.voiceName);
+  const [copyCurrent, setCopyCurrent] = useState(false);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await verifyPin(registry, pin)) {
+      setPin('');
+      setPinError(null);
+      setStep('list');
+    } else {
+      setPinError('Incorrect PIN');
+    }
+  };
+
+  const handleSetPin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{4,8}$/.test(pin)) {
+      setPinError('PIN must be 4 to 8 digits');
+      return;
+    }
+    onSetPin(await hashPin(pin));
+    setPin('');
+    setPinError(null);
+    setStep('list');
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    // New profiles start from the app defaults (or a copy of the current setup) with their own voice
+    const base = copyCurrent ? currentSettings : DEFAULT_SETTINGS;
+    onCreate({ name: name.trim(), emoji: emoji || '🙂', defaultSettings: { ...base, voiceName } });
+    setName('');
+    setEmoji('🙂');
+    setCopyCurrent(false);
+    setStep('list');
+  };
+
+  const inputClass = "w-full text-lg p-3 border-2 border-slate-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 outline-none transition-all";
+
+  const pinForm = (onSubmit: (e: React.FormEvent) => void, label: string, submitLabel: string) => (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <label className="block text-sm font-semibold text-slate-600">{label}</label>
+      <input
+        autoFocus
+        type="password"
+        inputMode="numeric"
+        value={pin}
+        onChange={(e) => { setPin(e.target.value.replace(/\D/g, '')); setPinError(null); }}
+        className={`${inputClass} text-center tracking-[0.5em] text-2xl`}
+        maxLength={8}
+      />
+      {pinError && <p className="text-sm font-semibold text-red-600">{pinError}</p>}
+      <button
+        type="submit"
+        disabled={pin.length < 4}
+        className="w-full py-3 px-4 rounded-xl font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-colors"
+      >
+        {submitLabel}
+      </button>
+    </form>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md max-h-full overflow-y-auto animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <div className="flex items-center gap-2 text-slate-800">
+            {(step === 'create' || step === 'set-pin') ? (
+              <button onClick={() => { setStep('list'); setPin(''); setPinError(null); }} className="p-1 rounded-full hover:bg-slate-100" aria-label="Back">
+                <ArrowLeft size={22} />
+              </button>
+            ) : (
+              <Users size={24} className="text-blue-500" />
+            )}
+            <h3 className="text-xl font-bold">
+              {step === 'create' ? 'New Profile' : step === 'set-pin' ? 'Set Switch PIN' : 'Profiles'}
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {step === 'locked' && pinForm(handleUnlock, 'Enter the PIN to switch profiles', 'Unlock')}
+
+          {step === 'set-pin' && pinForm(handleSetPin, 'Choose a 4–8 digit PIN required to switch profiles', 'Save PIN')}
+
+          {step === 'list' && (
+            <div className="space-y-3">
+              {registry.profiles.map(profile => {
+                const isActive = profile.id === registry.activeProfileId;
+                const canDelete = !isActive && profile.id !== DEFAULT_PROFILE_ID;
+                return (
+                  <div key={profile.id} className="flex gap-2">
+                    <button
+                      onClick={() => onSwitch(profile.id)}
+                      className={`flex-1 p-4 rounded-xl border-2 flex items-center gap-3 text-left transition-all
+                        ${isActive ? 'border-blue-500 bg-blue-50' : 'border-slate-100 bg-slate-50 hover:border-slate-300'}
+                      `}
+                    >
+                      <span className="text-3xl leading-none">{profile.emoji}</span>
+                      <span className="flex-1 font-bold text-slate-800">{profile.name}</span>
+                      {isActive && <Check size={20} className="text-blue-600" />}
+                    </button>
+                    {canDelete && (
+                      confirmDeleteId === profile.id ? (
+                        <button
+                          onClick={() => { onDelete(profile.id); setConfirmDeleteId(null); }}
+                          className="px-3 rounded-xl font-semibold text-sm text-white bg-red-500 hover:bg-red-600 transition-colors"
+                        >
+                          Delete?
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setConfirmDeleteId(profile.id)}
+                          className="px-3 rounded-xl text-slate-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                          aria-label={`Delete ${profile.name}`}
+                        >
+                          <Trash2 size={20} />
+                        </button>
+                      )
+                    )}
+                  </div>
+                );
+              })}
+
+              <button
+                onClick={() => setStep('create')}
+                className="w-full p-4 rounded-xl border-2 border-dashed border-slate-300 text-slate-500 hover:text-blue-500 hover:border-blue-400 hover:bg-blue-50 font-bold flex items-center justify-center gap-2 transition-all"
+              >
+                <Plus size={20} />
+                Add Profile
+              </button>
+
+              <div className="pt-3 mt-3 border-t border-slate-100">
+                {registry.switchPinHash ? (
+                  <button
+                    onClick={() => onSetPin(undefined)}
+                    className="w-full py-2 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-100 flex items-center justify-center gap-2"
+                  >
+                    <Unlock size={16} />
+                    Remove switch PIN
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setStep('set-pin')}
+                    className="w-full py-2 rounded-xl text-sm font-semibold text-slate-600 hover:bg-slate-100 flex items-center justify-center gap-2"
+                  >
+                    <Lock size={16} />
+                    Require a PIN to switch profiles
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {step === 'create' && (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid grid-cols-[80px_1fr] gap-3">
+                <div>
+                  <label className="block text-sm font-semibold text-slate-600 mb-2">Emoji</label>
+                  <input type="text" value={emoji} onChange={(e) => setEmoji(e.target.value)} className={`${inputClass} text-center`} />
+                </div>
+                <div>
+                  <label className="block text-sm font-semibold text-slate-600 mb-2">Name</label>
+                  <input autoFocus type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="e.g., Sam" />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-600 mb-2">Voice</label>
+                <select value={voiceName} onChange={(e) => setVoiceName(e.target.value)} className={inputClass}>
+                  {VOICE_OPTIONS.map(voice => <option key={voice.id} value={voice.id}>{voice.label} – {voice.description}</option>)}
+                </select>
+              </div>
+
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input type="checkbox" checked={copyCurrent} onChange={(e) => setCopyCurrent(e.target.checked)} className="w-5 h-5 accent-blue-600" />
+                <span className="text-sm font-semibold text-slate-600">Start from the current profile's settings</span>
+              </label>
+
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="w-full py-3 px-4 rounded-xl font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                Create Profile
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePickerModal;
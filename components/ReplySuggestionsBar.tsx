@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquareReply, Volume2, Loader2 } from 'lucide-react';
+import { ReplySuggestions, TileData, UserSettings, Vocabulary } from '../types';
+import Tile from './Tile';
+import RovingGrid from './RovingGrid';
+import { suggestReplies, replyToTile } from '../services/replies';
+
+interface ReplySuggestionsBarProps {
+  utterance: string; // The partner's last finished utterance
+  vocabulary: Vocabulary;
+  onSelect: (tile: TileData) => void; // Adds the reply to the sentence
+  onSpeak: (text: string) => void; // Says the reply straight away
+  settings: UserSettings;
+}
+
+/**
+ * Suggested replies to what the partner just said. Tap a reply to add it to the
+ * sentence, or its speaker button to say it immediately.
+ */
+const ReplySuggestionsBar: React.FC<ReplySuggestionsBarProps> = ({ utterance, vocabulary, onSelect, onSpeak, settings }) => {
+  const [suggestions, setSuggestions] = useState<ReplySuggestions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const isHighContrast = settings.accessibility?.highContrast;
+  const vocabularyRef = useRef(vocabulary);
+  vocabularyRef.current = vocabulary;
+
+  // Vocabulary is read (through the ref) when a new utterance arrives; later board edits don't re-run the request
+  useEffect(() => {
+    if (!utterance.trim()) {
+      setSuggestions(null);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    suggestReplies(utterance, vocabularyRef.current).then((result) => {
+      if (cancelled) return;
+      setSuggestions(result);
+      setIsLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [utterance]);
+
+  if (!utterance.trim()) return null;
+
+  const replies = suggestions?.utterance === utterance.trim() ? suggestions.replies : [];
+
+  return (
+    <div className={`flex items-center gap-2 px-4 py-2 border-b
+      ${isHighContrast ? 'bg-black border-yellow-600' : 'bg-sky-50 border-sky-200'}
+    `}>
+      <div
+        className={`shrink-0 flex flex-col items-center text-xs font-bold uppercase tracking-wider ${isHighContrast ? 'text-yellow-600' : 'text-sky-500'}`}
+        title={suggestions?.error ? `Quick replies (${suggestions.error})` : 'Quick replies'}
+      >
+        {isLoading ? <Loader2 size={18} className="animate-spin" /> : <MessageSquareReply size={18} />}
+        <span>Reply</span>
+      </div>
+      <RovingGrid className="flex-1 flex items-center gap-1 overflow-x-auto no-scrollbar py-1" aria-label="Suggested replies">
+        {replies.map((reply) => (
+          <div key={`reply-${reply}`} className="flex flex-col items-center gap-1 shrink-0">
+            <Tile data={replyToTile(reply, vocabulary)} onClick={onSelect} variant="small" settings={settings} />
+            <button
+              onClick={() => onSpeak(reply)}
+              className={`w-20 mx-1 py-1 rounded-lg text-xs font-bold flex items-center justify-center gap-1 transition-colors
+                ${isHighContrast ? 'bg-black border border-yellow-400 text-yellow-400' : 'bg-white border border-sky-200 text-sky-600 hover:bg-sky-100'}
+              `}
+              aria-label={`Say "${reply}" now`}
+            >
+              <Volume2 size={14} /> Say
+            </button>
+          </div>
+        ))}
+      </RovingGrid>
+    </div>
+  );
+};
+
+export default ReplySuggestionsBar;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { X, ArchiveRestore, Merge, Replace } from 'lucide-react';
+import { BackupSummary, RestoreMode } from '../services/backup';
+
+interface RestoreBackupModalProps {
+  summary: BackupSummary | null;
+  onClose: () => void;
+  onRestore: (mode: RestoreMode) => void;
+}
+
+const RestoreBackupModal: React.FC<RestoreBackupModalProps> = ({ summary, onClose, onRestore }) => {
+  if (!summary) return null;
+
+  const createdAt = summary.createdAt ? new Date(summary.createdAt).toLocaleString() : 'Unknown date';
+
+  const rows = [
+    { label: 'Saved phrases', value: summary.phrases, detail: `${summary.newPhrases} new` },
+    { label: 'Pinned tiles', value: summary.pins, detail: `${summary.newPins} new` },
+    { label: 'Custom tiles', value: summary.customTiles },
+    { label: 'Custom categories', value: summary.boards },
+    { label: 'Spoken sentences', value: summary.sentences, detail: 'for word prediction' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <div className="flex items-center gap-2 text-slate-800">
+            <ArchiveRestore size={24} className="text-blue-500" />
+            <h3 className="text-xl font-bold">Restore Backup</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <p className="text-sm text-slate-500 mb-4">Backup from <strong>{createdAt}</strong> contains:</p>
+
+          <div className="rounded-xl border border-slate-200 divide-y divide-slate-100 mb-6">
+            {rows.map(row => (
+              <div key={row.label} className="flex items-center justify-between px-4 py-3">
+                <span className="font-semibold text-slate-700">{row.label}</span>
+                <span className="text-slate-500 text-sm">
+                  <strong className="text-slate-800 text-base">{row.value}</strong>
+                  {row.detail && <span className="ml-2">({row.detail})</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <button
+              onClick={() => onRestore('merge')}
+              className="w-full py-3 px-4 rounded-xl font-semibold text-white bg-blue-600 hover:bg-blue-700 transition-colors flex items-center justify-center gap-2"
+            >
+              <Merge size={20} />
+              Merge (keep my settings)
+            </button>
+            <button
+              onClick={() => onRestore('replace')}
+              className="w-full py-3 px-4 rounded-xl font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-colors flex items-center justify-center gap-2"
+            >
+              <Replace size={20} />
+              Replace everything on this device
+            </button>
+            <button
+              onClick={onClose}
+              className="w-full py-3 px-4 rounded-xl font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreBackupModal;
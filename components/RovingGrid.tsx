@@ -0,0 +1,103 @@
+import React, { useRef, useEffect } from 'react';
+
+interface RovingGridProps {
+  className?: string;
+  style?: React.CSSProperties;
+  children: React.ReactNode;
+  'aria-label'?: string;
+  'data-scan-region'?: string;
+}
+
+const ROW_TOLERANCE_PX = 8;
+
+// Elements marked `data-grid-item` take part in arrow-key navigation
+const getItems = (container: HTMLElement | null): HTMLElement[] => (
+  Array.from(container?.querySelectorAll<HTMLElement>('[data-grid-item]') || [])
+    .filter(el => !(el as HTMLButtonElement).disabled)
+);
+
+const centerX = (rect: DOMRect) => rect.left + rect.width / 2;
+
+// Finds the item an arrow/Home/End key should move to, based on on-screen layout
+const findTarget = (items: HTMLElement[], current: number, key: string, ctrl: boolean): number | null => {
+  const rects = items.map(el => el.getBoundingClientRect());
+  const here = rects[current];
+  const sameRow = (rect: DOMRect) => Math.abs(rect.top - here.top) <= ROW_TOLERANCE_PX;
+
+  switch (key) {
+    case 'ArrowRight':
+      return current < items.length - 1 ? current + 1 : null;
+    case 'ArrowLeft':
+      return current > 0 ? current - 1 : null;
+    case 'Home':
+      return ctrl ? 0 : rects.findIndex(sameRow);
+    case 'End': {
+      if (ctrl) return items.length - 1;
+      let last = current;
+      rects.forEach((rect, i) => { if (sameRow(rect)) last = i; });
+      return last;
+    }
+    case 'ArrowDown':
+    case 'ArrowUp': {
+      const down = key === 'ArrowDown';
+      // Nearest row in that direction, then the closest item horizontally within it
+      const candidates = rects
+        .map((rect, i) => ({ rect, i }))
+        .filter(({ rect }) => (down ? rect.top > here.top + ROW_TOLERANCE_PX : rect.top < here.top - ROW_TOLERANCE_PX));
+      if (candidates.length === 0) return null;
+      const rowTop = down
+        ? Math.min(...candidates.map(c => c.rect.top))
+        : Math.max(...candidates.map(c => c.rect.top));
+      const row = candidates.filter(c => Math.abs(c.rect.top - rowTop) <= ROW_TOLERANCE_PX);
+      row.sort((a, b) => Math.abs(centerX(a.rect) - centerX(here)) - Math.abs(centerX(b.rect) - centerX(here)));
+      return row[0].i;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * A container with roving-tabindex keyboard navigation: Tab enters and leaves the
+ * grid as a single stop, and the arrow keys (plus Home/End, Ctrl+Home/End) move
+ * between the items inside it.
+ */
+const RovingGrid: React.FC<RovingGridProps> = ({ className, children, ...rest }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeIndex = useRef(0);
+
+  const updateTabStops = () => {
+    const items = getItems(containerRef.current);
+    if (activeIndex.current >= items.length) activeIndex.current = Math.max(0, items.length - 1);
+    items.forEach((el, i) => { el.tabIndex = i === activeIndex.current ? 0 : -1; });
+  };
+
+  // Items change as boards are opened and edited; keep exactly one in the tab order
+  useEffect(updateTabStops);
+
+  const handleFocus = (e: React.FocusEvent) => {
+    const index = getItems(containerRef.current).indexOf(e.target as HTMLElement);
+    if (index === -1 || index === activeIndex.current) return;
+    activeIndex.current = index;
+    updateTabStops();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.altKey || e.metaKey) return; // Leave modified arrows to hotkeys
+    const items = getItems(containerRef.current);
+    const current = items.indexOf(document.activeElement as HTMLElement);
+    if (current === -1) return;
+    const target = findTarget(items, current, e.key, e.ctrlKey);
+    if (target === null || target === -1) return;
+    e.preventDefault();
+    items[target].focus();
+  };
+
+  return (
+    <div ref={containerRef} className={className} onFocus={handleFocus} onKeyDown={handleKeyDown} {...rest}>
+      {children}
+    </div>
+  );
+};
+
+export default RovingGrid;
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { TileData, UserSettings } from '../types';
 import Tile from './Tile';
+import RovingGrid from './RovingGrid';
 import { Plus, Trash2 } from 'lucide-react';
 import ConfirmModal from './ConfirmModal';
 
@@ -44,10 +45,11 @@ const SavedPhrasesView: React.FC<SavedPhrasesViewProps> = ({
           <span className="text-sm text-slate-400 font-medium bg-slate-100 px-3 py-1 rounded-full">{savedTiles.length} phrases</span>
         </div>
         
-        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 pb-20">
+        <RovingGrid className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 pb-20" aria-label="Saved phrases">
           {/* Add New Phrase Button - Redirects to Keyboard */}
           <div className="flex flex-col" style={tileHeightStyle}>
             <button
+              data-grid-item
               onClick={onSwitchToKeyboard}
               className="w-full h-full flex flex-col items-center justify-center rounded-xl border-3 border-dashed border-slate-300 text-slate-400 hover:text-blue-500 hover:border-blue-400 hover:bg-blue-50 transition-all gap-2 group"
             >
@@ -76,7 +78,7 @@ const SavedPhrasesView: React.FC<SavedPhrasesViewProps> = ({
               </button>
             </div>
           ))}
-        </div>
+        </RovingGrid>
       </div>
 
       <ConfirmModal 
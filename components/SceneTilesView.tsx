@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Camera, CameraOff, RotateCcw, Loader2, Image as ImageIcon, Smile } from 'lucide-react';
+import { SceneResult, TileData, UserSettings } from '../types';
+import Tile from './Tile';
+import RovingGrid from './RovingGrid';
+import { captureFrame, describeScene, sceneItemsToTiles } from '../services/scene';
+
+interface SceneTilesViewProps {
+  onAddTile: (tile: TileData) => void;
+  settings: UserSettings;
+}
+
+interface Snapshot {
+  dataUrl: string;
+  canvas: HTMLCanvasElement;
+  result: SceneResult | null; // Null while the picture is being analysed
+}
+
+/**
+ * Scene tiles: take a picture of what's in front of you and get a temporary
+ * board of the people, things and actions in it to talk about. The board is
+ * thrown away on retake and is never saved to the vocabulary. The camera only
+ * turns on when asked, so passing through this view never opens it.
+ */
+const SceneTilesView: React.FC<SceneTilesViewProps> = ({ onAddTile, settings }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [showPictures, setShowPictures] = useState(true);
+  const isHighContrast = settings.accessibility?.highContrast;
+
+  useEffect(() => {
+    if (!isCameraOn) return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then((media) => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch((e) => {
+        console.error("Camera error", e);
+        if (cancelled) return;
+        setCameraError("Can't open the camera. Check that camera access is allowed.");
+        setIsCameraOn(false);
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isCameraOn]);
+
+  const handleCapture = async () => {
+    if (!videoRef.current) return;
+    const frame = captureFrame(videoRef.current);
+    if (!frame) return;
+    setIsCameraOn(false);
+    setSnapshot({ dataUrl: frame.dataUrl, canvas: frame.canvas, result: null });
+    const result = await describeScene(frame.image);
+    // Ignore the answer if the user retook the picture meanwhile
+    setSnapshot(prev => prev?.canvas === frame.canvas ? { ...prev, result } : prev);
+  };
+
+  const startCamera = () => {
+    setSnapshot(null);
+    setCameraError(null);
+    setIsCameraOn(true);
+  };
+
+  const tiles = useMemo(
+    () => (snapshot?.result ? sceneItemsToTiles(snapshot.result.items, snapshot.canvas) : []),
+    [snapshot]
+  );
+  const hasPictures = tiles.some(tile => tile.imageUrl);
+  const visibleTiles = showPictures ? tiles : tiles.map(({ imageUrl, ...tile }) => tile);
+
+  const buttonClass = `px-4 py-3 rounded-xl font-bold flex items-center gap-2 transition-colors disabled:opacity-40
+    ${isHighContrast ? 'bg-black border-2 border-yellow-400 text-yellow-400 hover:bg-slate-900' : 'bg-white border border-slate-200 text-slate-700 hover:bg-slate-100'}
+  `;
+
+  return (
+    <div className="p-4 h-full overflow-y-auto">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h2 className={`text-2xl font-bold ${isHighContrast ? 'text-yellow-400' : 'text-slate-800'}`}>Scene</h2>
+        <div className="flex items-center gap-2">
+          {hasPictures && (
+            <button
+              onClick={() => setShowPictures(prev => !prev)}
+              className={buttonClass}
+              aria-pressed={showPictures}
+              title={showPictures ? 'Show emoji instead of pictures' : 'Show pictures from the photo'}
+            >
+              {showPictures ? <Smile size={20} /> : <ImageIcon size={20} />}
+              <span className="hidden md:inline">{showPictures ? 'Emoji' : 'Pictures'}</span>
+            </button>
+          )}
+          {snapshot ? (
+            <button onClick={startCamera} className={buttonClass}>
+              <RotateCcw size={20} /> Retake
+            </button>
+          ) : !isCameraOn ? (
+            <button
+              onClick={startCamera}
+              className={`px-4 py-3 rounded-xl font-bold flex items-center gap-2 transition-colors
+                ${isHighContrast ? 'bg-yellow-400 text-black hover:bg-yellow-300' : 'bg-blue-600 text-white hover:bg-blue-700'}
+              `}
+            >
+              <Camera size={20} /> Start Camera
+            </button>
+          ) : (
+            <button
+              onClick={handleCapture}
+              className={`px-4 py-3 rounded-xl font-bold flex items-center gap-2 transition-colors disabled:opacity-40
+                ${isHighContrast ? 'bg-yellow-400 text-black hover:bg-yellow-300' : 'bg-blue-600 text-white hover:bg-blue-700'}
+              `}
+            >
+              <Camera size={20} /> Take Picture
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className={`relative mx-auto mb-6 max-w-xl aspect-video rounded-2xl overflow-hidden ${isHighContrast ? 'border-2 border-yellow-400 bg-black' : 'bg-slate-900'}`}>
+        {snapshot ? (
+          <img src={snapshot.dataUrl} alt="Snapshot of your surroundings" className="w-full h-full object-cover" />
+        ) : isCameraOn ? (
+          <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+        ) : cameraError ? null : (
+          <div className="w-full h-full flex items-center justify-center text-white/40">
+            <Camera size={48} />
+          </div>
+        )}
+        {cameraError && !snapshot && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-6 text-center text-white">
+            <CameraOff size={40} className="opacity-60" />
+            <p className="font-semibold">{cameraError}</p>
+          </div>
+        )}
+        {snapshot && !snapshot.result && (
+          <div className="absolute inset-0 flex items-center justify-center gap-2 bg-black/50 text-white font-bold" role="status">
+            <Loader2 size={24} className="animate-spin" /> Looking at the picture...
+          </div>
+        )}
+      </div>
+
+      {snapshot?.result?.error && (
+        <p className={`mb-4 text-sm font-medium text-center ${isHighContrast ? 'text-yellow-600' : 'text-slate-500'}`} role="status">
+          Showing general words: {snapshot.result.error}
+        </p>
+      )}
+
+      {!snapshot && !cameraError && (
+        <p className={`text-center font-semibold ${isHighContrast ? 'text-yellow-600' : 'text-slate-400'}`}>
+          {isCameraOn
+            ? 'Point the camera at what you want to talk about, then take a picture.'
+            : 'Start the camera to make tiles for what is in front of you.'}
+        </p>
+      )}
+
+      {visibleTiles.length > 0 && (
+        <RovingGrid className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 pb-20" aria-label="Things in the picture">
+          {visibleTiles.map(tile => (
+            <div key={tile.id} className="animate-in fade-in duration-300">
+              <Tile data={tile} onClick={onAddTile} settings={settings} />
+            </div>
+          ))}
+        </RovingGrid>
+      )}
+    </div>
+  );
+};
+
+export default SceneTilesView;
@@ -1,10 +1,12 @@
 
 import React, { useRef, useEffect, useState, useMemo } from 'react';
-import { TileData, UserSettings } from '../types';
+import { TileData, UserSettings, Vocabulary, RefineResult } from '../types';
 import Tile from './Tile';
-import { X, Volume2, Save, Wand2, Search, Plus, Keyboard } from 'lucide-react';
-import { speakText, refineSentence } from '../services/gemini';
-import { VOCABULARY } from '../constants';
+import { X, Volume2, Save, Wand2, Search, Plus, Keyboard, Square, Check, WifiOff } from 'lucide-react';
+import { refineSentence } from '../services/refine';
+import { speak, stopSpeech } from '../services/speech';
+import { PredictionModel, rankCompletions } from '../services/prediction';
+import { onHotkey } from '../services/hotkeys';
 
 interface SentenceStripProps {
   sentence: TileData[];
@@ -12,9 +14,14 @@ interface SentenceStripProps {
   onClear: () => void;
   onSave: () => void;
   onAddTile: (tile: TileData) => void;
-  isSpeaking: boolean;
-  setIsSpeaking: (v: boolean) => void;
+  vocabulary: Vocabulary;
+  isSpeaking: boolean; // Driven by playback start/end events
   settings: UserSettings;
+  predictionModel: PredictionModel;
+  onSpoken: (text: string) => void; // Records the sentence so predictions learn from it
+  // Replace device speech, e.g. to speak into a partner conversation
+  speakText?: (text: string) => Promise<void>;
+  stopSpeaking?: () => void;
 }
 
 const SentenceStrip: React.FC<SentenceStripProps> = ({ 
@@ -23,49 +30,51 @@ const SentenceStrip: React.FC<SentenceStripProps> = ({
   onClear, 
   onSave,
   onAddTile,
+  vocabulary,
   isSpeaking,
-  setIsSpeaking,
-  settings
+  settings,
+  predictionModel,
+  onSpoken,
+  speakText,
+  stopSpeaking = stopSpeech
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const [isRefining, setIsRefining] = useState(false);
-  const [refinedText, setRefinedText] = useState<string | null>(null);
+  const [refineResult, setRefineResult] = useState<RefineResult | null>(null);
+  const [isReviewingFix, setIsReviewingFix] = useState(false);
+  const [refinedText, setRefinedText] = useState<string | null>(null); // The chosen (and possibly edited) phrasing
   const [inputValue, setInputValue] = useState('');
   const [showSuggestions, setShowSuggestions] = useState(false);
   
   const isHighContrast = settings.accessibility?.highContrast;
 
-  // Flatten vocabulary for search, excluding folders and navigation
+  // Flatten vocabulary for search, excluding folders, navigation and tiles that can't be selected
   const allTiles = useMemo(() => {
     const tiles: TileData[] = [];
-    Object.values(VOCABULARY).forEach(categoryTiles => {
+    Object.values<TileData[]>(vocabulary).forEach(categoryTiles => {
       categoryTiles.forEach(tile => {
-        if (!tile.id.startsWith('folder_') && !tile.isNavigation) {
+        if (!tile.linkTo && !tile.isNavigation && (tile.visibility || 'visible') === 'visible') {
           tiles.push(tile);
         }
       });
     });
     return tiles;
-  }, []);
+  }, [vocabulary]);
 
-  // Filter tiles based on input
+  // Filter tiles based on input, most likely next words first, limit to 8 results
   const suggestions = useMemo(() => {
     if (!inputValue.trim()) return [];
     const lowerInput = inputValue.toLowerCase().trim();
-    // Prioritize exact matches or startsWith, limit to 8 results
-    return allTiles
-      .filter(t => t.label.toLowerCase().includes(lowerInput))
-      .sort((a, b) => {
-        const aLabel = a.label.toLowerCase();
-        const bLabel = b.label.toLowerCase();
-        // Exact starts come first
-        if (aLabel.startsWith(lowerInput) && !bLabel.startsWith(lowerInput)) return -1;
-        if (!aLabel.startsWith(lowerInput) && bLabel.startsWith(lowerInput)) return 1;
-        return 0;
-      })
-      .slice(0, 8);
-  }, [inputValue, allTiles]);
+    const matches = allTiles.filter(t => t.label.toLowerCase().includes(lowerInput));
+    return rankCompletions(predictionModel, sentence, matches, inputValue).slice(0, 8);
+  }, [inputValue, allTiles, predictionModel, sentence]);
+
+  const clearRefinement = () => {
+    setRefineResult(null);
+    setRefinedText(null);
+    setIsReviewingFix(false);
+  };
 
   // Auto-scroll to end when sentence changes
   useEffect(() => {
@@ -73,33 +82,44 @@ const SentenceStrip: React.FC<SentenceStripProps> = ({
       scrollRef.current.scrollLeft = scrollRef.current.scrollWidth;
     }
     // Reset refined text if sentence changes manually
-    setRefinedText(null);
+    clearRefinement();
   }, [sentence]);
 
   const handleSpeak = async () => {
-    if ((sentence.length === 0 && !refinedText && !inputValue) || isSpeaking) return;
+    if (sentence.length === 0 && !refinedText && !inputValue) return;
     
-    setIsSpeaking(true);
-    // If user typed something but didn't select a tile, speak it too
+    // If user typed something but didn't select a tile, speak it too (Smart Fix already included it)
     let textToPlay = refinedText || sentence.map(t => t.textToSpeak || t.label).join(' ');
     
-    if (inputValue.trim()) {
+    if (inputValue.trim() && !refinedText) {
       textToPlay = textToPlay ? `${textToPlay} ${inputValue}` : inputValue;
     }
 
-    await speakText(textToPlay, settings.voiceName);
-    setIsSpeaking(false);
+    onSpoken(textToPlay);
+    try {
+      // Interrupts anything still playing so repeated taps never overlap
+      await (speakText ? speakText(textToPlay) : speak(textToPlay, settings));
+    } catch (e) {
+      console.error("Speech failed", e);
+    }
   };
 
+  // Re-subscribed each render so the handlers always see the current sentence
+  useEffect(() => onHotkey(settings.hotkeys, {
+    speak: isSpeaking ? stopSpeaking : handleSpeak,
+    clear: () => { onClear(); setInputValue(''); },
+    backspace: () => { if (sentence.length > 0) onRemove(sentence.length - 1); },
+  }));
+
   const handleSmartFix = async () => {
     if (sentence.length === 0 && !inputValue) return;
     setIsRefining(true);
     try {
-      const rawText = sentence.map(t => t.label).join(' ') + (inputValue ? ` ${inputValue}` : '');
+      const rawText = sentence.map(t => t.textToSpeak || t.label).join(' ') + (inputValue ? ` ${inputValue}` : '');
       const result = await refineSentence(rawText);
-      setRefinedText(result);
-    } catch (e) {
-      console.error("Failed to refine", e);
+      setRefineResult(result);
+      setRefinedText(result.candidates[0] ?? null);
+      setIsReviewingFix(true);
     } finally {
       setIsRefining(false);
     }
@@ -145,20 +165,20 @@ const SentenceStrip: React.FC<SentenceStripProps> = ({
     ${isHighContrast ? 'bg-black border-yellow-400' : 'bg-white border-slate-200'}`;
   
   return (
-    <div className={stripClass}>
+    <div data-touch-filter className={stripClass}>
       
       {/* Scrollable Sentence Area */}
       <div className="flex-1 flex flex-col min-h-[5rem] relative">
         {/* If refined, show the natural sentence prominently */}
-        {refinedText && (
+        {refinedText !== null && (
            <div className={`px-4 py-2 font-medium text-sm flex justify-between items-center border-b animate-in slide-in-from-top-2
              ${isHighContrast ? 'bg-yellow-900 text-yellow-300 border-yellow-600' : 'bg-indigo-50 text-indigo-800 border-indigo-100'}
            `}>
-             <div className="flex items-center gap-2">
-               <Wand2 size={16} />
-               <span>Corrected: <strong>"{refinedText}"</strong></span>
-             </div>
-             <button onClick={() => setRefinedText(null)} className="p-1 hover:opacity-75 rounded">
+             <button onClick={() => setIsReviewingFix(true)} className="flex items-center gap-2 min-w-0 text-left hover:underline">
+               <Wand2 size={16} className="shrink-0" />
+               <span className="truncate">Will speak: <strong>"{refinedText}"</strong></span>
+             </button>
+             <button onClick={clearRefinement} className="p-1 hover:opacity-75 rounded" aria-label="Discard Smart Fix">
                <X size={14} />
              </button>
            </div>
@@ -169,7 +189,7 @@ const SentenceStrip: React.FC<SentenceStripProps> = ({
           className="flex-1 overflow-x-auto flex items-center p-2 gap-2 no-scrollbar"
         >
           {sentence.map((tile, index) => (
-            <div key={`${tile.id}-${index}`} className={`relative group shrink-0 animate-in fade-in zoom-in duration-200 ${refinedText ? 'opacity-50 grayscale' : ''}`}>
+            <div key={`${tile.id}-${index}`} className={`relative group shrink-0 animate-in fade-in zoom-in duration-200 ${refinedText !== null ? 'opacity-50 grayscale' : ''}`}>
               <Tile data={tile} onClick={() => {}} variant="small" settings={settings} />
               <button 
                 onClick={() => onRemove(index)}
@@ -211,8 +231,88 @@ const SentenceStrip: React.FC<SentenceStripProps> = ({
           </div>
         </div>
 
+        {/* Smart Fix Review */}
+        {isReviewingFix && refineResult && (
+          <div className={`absolute top-full left-0 right-0 border shadow-xl rounded-b-xl z-50 p-4 space-y-3 animate-in slide-in-from-top-2
+             ${isHighContrast ? 'bg-black border-yellow-400 text-yellow-400' : 'bg-white border-slate-200 text-slate-700'}
+          `}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 font-bold">
+                <Wand2 size={18} />
+                <span>Smart Fix</span>
+                {refineResult.source !== 'none' && (
+                  <span className={`text-xs uppercase px-2 py-0.5 rounded-full ${isHighContrast ? 'bg-yellow-900' : 'bg-indigo-100 text-indigo-700'}`}>
+                    {refineResult.source === 'ai' ? 'AI' : 'Offline'}
+                  </span>
+                )}
+              </div>
+              <button onClick={clearRefinement} className="p-1 hover:opacity-75 rounded" aria-label="Discard Smart Fix">
+                <X size={18} />
+              </button>
+            </div>
+
+            {refineResult.error && (
+              <p className={`text-sm flex items-center gap-2 ${isHighContrast ? 'text-yellow-600' : 'text-amber-700'}`}>
+                <WifiOff size={14} />
+                {refineResult.source === 'none'
+                  ? `Smart Fix couldn't run: ${refineResult.error}`
+                  : `AI unavailable (${refineResult.error}). Showing offline fixes.`}
+              </p>
+            )}
+
+            {refineResult.candidates.length === 0 ? (
+              <p className={`text-sm ${isHighContrast ? 'text-yellow-600' : 'text-slate-500'}`}>
+                No changes suggested for "{refineResult.original}".
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-col gap-2" role="radiogroup" aria-label="Suggested phrasings">
+                  {refineResult.candidates.map((candidate) => (
+                    <button
+                      key={candidate}
+                      role="radio"
+                      aria-checked={refinedText === candidate}
+                      onClick={() => setRefinedText(candidate)}
+                      className={`px-3 py-2 rounded-lg border-2 text-left font-medium transition-colors
+                        ${refinedText === candidate
+                          ? (isHighContrast ? 'border-yellow-400 bg-yellow-900' : 'border-indigo-500 bg-indigo-50 text-indigo-800')
+                          : (isHighContrast ? 'border-yellow-800 hover:border-yellow-600' : 'border-slate-200 hover:border-indigo-300')}
+                      `}
+                    >
+                      {candidate}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={refinedText ?? ''}
+                    onChange={(e) => setRefinedText(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') setIsReviewingFix(false); }}
+                    aria-label="Edit the sentence before speaking"
+                    className={`flex-1 px-3 py-2 rounded-lg border-2 outline-none
+                      ${isHighContrast ? 'bg-black border-yellow-600 text-yellow-400 focus:border-yellow-400' : 'border-slate-200 focus:border-indigo-400'}
+                    `}
+                  />
+                  <button
+                    onClick={() => setIsReviewingFix(false)}
+                    disabled={!refinedText?.trim()}
+                    className={`px-4 py-2 rounded-lg font-bold flex items-center gap-2 disabled:opacity-50
+                      ${isHighContrast ? 'bg-yellow-400 text-black' : 'bg-indigo-600 text-white hover:bg-indigo-700'}
+                    `}
+                  >
+                    <Check size={18} />
+                    Use
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
         {/* Suggestions Dropdown */}
-        {showSuggestions && inputValue.trim() && (
+        {showSuggestions && inputValue.trim() && !isReviewingFix && (
           <div className={`absolute top-full left-0 right-0 border shadow-xl rounded-b-xl z-50 max-h-60 overflow-y-auto
              ${isHighContrast ? 'bg-black border-yellow-400' : 'bg-white border-slate-200'}
           `}>
@@ -247,7 +347,7 @@ const SentenceStrip: React.FC<SentenceStripProps> = ({
       </div>
 
       {/* Action Buttons */}
-      <div className={`flex md:flex-col lg:flex-row p-2 gap-2 items-stretch justify-end 
+      <div data-scan-region="Sentence actions" className={`flex md:flex-col lg:flex-row p-2 gap-2 items-stretch justify-end 
          ${isSidebarRight ? 'border-t md:border-t-0 md:border-l' : 'border-t md:border-t-0 md:border-r'}
          ${isHighContrast ? 'bg-black border-yellow-400' : 'bg-slate-50 md:bg-white border-slate-100'}
       `}>
@@ -296,19 +396,33 @@ const SentenceStrip: React.FC<SentenceStripProps> = ({
               <span className="inline">Save</span>
             </button>
 
-            <button 
-              onClick={handleSpeak}
-              disabled={(sentence.length === 0 && !refinedText && !inputValue) || isSpeaking}
-              className={`flex-[2] md:flex-none flex items-center justify-center gap-2 px-6 lg:px-8 py-2 rounded-lg font-bold text-white transition-all shadow-md disabled:opacity-50 disabled:shadow-none
-                ${isHighContrast 
-                  ? 'bg-yellow-400 text-black hover:bg-yellow-300 border-2 border-white' 
-                  : 'bg-blue-600 hover:bg-blue-700 active:translate-y-0.5'} 
-                ${isSpeaking ? 'cursor-wait opacity-90' : ''}
-              `}
-            >
-              <Volume2 size={24} className={isSpeaking ? 'animate-pulse' : ''} />
-              <span>{isSpeaking ? 'Speaking...' : 'Speak'}</span>
-            </button>
+            {isSpeaking ? (
+              <button 
+                onClick={stopSpeaking}
+                className={`flex-[2] md:flex-none flex items-center justify-center gap-2 px-6 lg:px-8 py-2 rounded-lg font-bold text-white transition-all shadow-md
+                  ${isHighContrast 
+                    ? 'bg-red-500 text-white hover:bg-red-400 border-2 border-white' 
+                    : 'bg-red-600 hover:bg-red-700 active:translate-y-0.5'} 
+                `}
+                title="Stop speaking"
+              >
+                <Square size={20} className="fill-current" />
+                <span>Stop</span>
+              </button>
+            ) : (
+              <button 
+                onClick={handleSpeak}
+                disabled={sentence.length === 0 && !refinedText && !inputValue}
+                className={`flex-[2] md:flex-none flex items-center justify-center gap-2 px-6 lg:px-8 py-2 rounded-lg font-bold text-white transition-all shadow-md disabled:opacity-50 disabled:shadow-none
+                  ${isHighContrast 
+                    ? 'bg-yellow-400 text-black hover:bg-yellow-300 border-2 border-white' 
+                    : 'bg-blue-600 hover:bg-blue-700 active:translate-y-0.5'} 
+                `}
+              >
+                <Volume2 size={24} />
+                <span>Speak</span>
+              </button>
+            )}
          </div>
       </div>
     </div>
@@ -1,20 +1,76 @@
 
-import React, { useState } from 'react';
-import { Palette, Type, Layout, Volume2, Check, Play, Download, WifiOff, Loader2, ArrowLeftRight, Eye, MousePointer2, Ear, BellRing, Sun } from 'lucide-react';
-import { UserSettings } from '../types';
-import { VOICE_OPTIONS, VOCABULARY, DEFAULT_SETTINGS } from '../constants';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Palette, Type, Layout, Volume2, Check, Play, Download, WifiOff, Loader2, ArrowLeftRight, Eye, MousePointer2, Ear, BellRing, Sun, Share2, Upload, Package, DatabaseBackup, ArchiveRestore, HardDrive, ShieldCheck, Trash2, Keyboard, RotateCcw, Layers } from 'lucide-react';
+import { UserSettings, Vocabulary, ProfileData, SpeechVoice, SpeechEngineId, HotkeyAction } from '../types';
+import { SPEECH_ENGINE_OPTIONS, VOICE_OPTIONS, DEFAULT_SETTINGS, SCAN_METHOD_OPTIONS, DWELL_INDICATOR_OPTIONS, HOTKEY_ACTIONS, VOCABULARY_LEVELS, TILE_VISIBILITY_OPTIONS } from '../constants';
 import Tile from './Tile';
-import { speakText, preloadAudioAssets } from '../services/gemini';
+import { preloadAudioAssets, clearVoiceAudio } from '../services/gemini';
+import { speak, getSpeechEngine, getEngineVoice, withEngineVoice } from '../services/speech';
+import { keyComboFromEvent, formatKeyCombo } from '../services/hotkeys';
+import { getAudioCacheSummary, VoiceCacheSummary } from '../services/audioCache';
+import { exportObf, exportObz } from '../services/obf';
+import { downloadBlob, datedFilename } from '../services/files';
+import { createBackup, parseBackup, summarizeBackup, restoreBackup, ProfileBackup, RestoreMode } from '../services/backup';
+import { getStorageEstimate, requestPersistentStorage, isStorageNearlyFull, formatBytes, StorageEstimate } from '../services/storage';
+import RestoreBackupModal from './RestoreBackupModal';
 
 interface SettingsViewProps {
   settings: UserSettings;
+  vocabulary: Vocabulary;
+  boards: { id: string; label: string }[];
+  profile: ProfileData;
   onSettingsChange: (settings: UserSettings) => void;
+  onImportBoards: (file: File) => Promise<void>;
+  onRestoreProfile: (profile: ProfileData) => void;
+  defaultSettings?: UserSettings; // The active profile's defaults, used by Reset Defaults
 }
 
-const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange }) => {
+const SettingsView: React.FC<SettingsViewProps> = ({ settings, vocabulary, boards, profile, onSettingsChange, onImportBoards, onRestoreProfile, defaultSettings = DEFAULT_SETTINGS }) => {
   const [playingVoice, setPlayingVoice] = useState<string | null>(null);
   const [downloadProgress, setDownloadProgress] = useState<{ completed: number, total: number } | null>(null);
   const [activeTab, setActiveTab] = useState<'general' | 'accessibility'>('general');
+  const [exportBoardId, setExportBoardId] = useState('General');
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<ProfileBackup | null>(null);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [voiceCache, setVoiceCache] = useState<VoiceCacheSummary[]>([]);
+  const [engineVoices, setEngineVoices] = useState<SpeechVoice[]>([]);
+  const [capturingHotkey, setCapturingHotkey] = useState<HotkeyAction | null>(null);
+
+  // Voices depend on the engine (device voices differ per browser/OS)
+  useEffect(() => {
+    let cancelled = false;
+    const engine = getSpeechEngine(settings.speechEngine);
+    (engine ? engine.listVoices() : Promise.resolve([])).then(voices => {
+      if (cancelled) return;
+      setEngineVoices(settings.speechEngine === 'webspeech'
+        ? [{ id: '', label: 'Default', description: 'Browser default voice' }, ...voices]
+        : voices);
+    });
+    return () => { cancelled = true; };
+  }, [settings.speechEngine]);
+
+  const refreshVoiceCache = () => {
+    getAudioCacheSummary().then(setVoiceCache);
+    getStorageEstimate().then(setStorageEstimate);
+  };
+
+  useEffect(() => {
+    getAudioCacheSummary().then(setVoiceCache);
+  }, []);
+
+  // Refresh usage whenever what we store changes
+  useEffect(() => {
+    getStorageEstimate().then(setStorageEstimate);
+  }, [profile.savedTiles, profile.pinnedTiles, profile.vocabulary]);
+
+  const handlePersistStorage = async () => {
+    await requestPersistentStorage();
+    setStorageEstimate(await getStorageEstimate());
+  };
 
   // Initialize accessibility if missing (backward compatibility)
   const safeSettings = {
@@ -32,11 +88,42 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
     });
   };
 
-  const handleVoicePreview = async (voiceName: string) => {
-    if (playingVoice) return;
-    setPlayingVoice(voiceName);
+  const updateHotkey = useCallback((action: HotkeyAction, combo: string) => {
+    const hotkeys = { ...settings.hotkeys };
+    // A key can only trigger one action
+    (Object.keys(hotkeys) as HotkeyAction[]).forEach(other => {
+      if (combo && hotkeys[other] === combo) hotkeys[other] = '';
+    });
+    hotkeys[action] = combo;
+    onSettingsChange({ ...settings, hotkeys });
+  }, [settings, onSettingsChange]);
+
+  // While waiting for a new binding, swallow the next key press so it doesn't also trigger an action
+  useEffect(() => {
+    if (!capturingHotkey) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setCapturingHotkey(null);
+        return;
+      }
+      const combo = keyComboFromEvent(e);
+      if (!combo) return; // Wait for the key that goes with the modifier
+      updateHotkey(capturingHotkey, combo);
+      setCapturingHotkey(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturingHotkey, updateHotkey]);
+
+  const handleVoicePreview = async (voice: SpeechVoice) => {
+    if (playingVoice !== null) return;
+    setPlayingVoice(voice.id);
     try {
-      await speakText(`Hello, I am ${voiceName}`, voiceName);
+      // Preview exactly this voice: no fallback to another engine
+      const previewSettings: UserSettings = { ...withEngineVoice(settings, settings.speechEngine, voice.id), fallbackSpeechEngine: 'none' };
+      await speak(`Hello, I am ${voice.label}`, previewSettings);
     } catch (e) {
       console.error(e);
     } finally {
@@ -50,12 +137,15 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
     try {
       setDownloadProgress({ completed: 0, total: 100 }); // Initialize state
       
-      await preloadAudioAssets(VOCABULARY, settings.voiceName, (completed, total) => {
+      await preloadAudioAssets(vocabulary, settings.voiceName, (completed, total) => {
         setDownloadProgress({ completed, total });
       });
       
       // Brief delay to show 100% completion before clearing
-      setTimeout(() => setDownloadProgress(null), 1000);
+      setTimeout(() => {
+        setDownloadProgress(null);
+        refreshVoiceCache();
+      }, 1000);
       
     } catch (e) {
       console.error("Download failed", e);
@@ -64,8 +154,69 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
     }
   };
 
+  const handleClearVoiceCache = async (voiceName: string) => {
+    try {
+      await clearVoiceAudio(voiceName);
+    } catch (e) {
+      console.error("Failed to clear voice cache", e);
+    }
+    refreshVoiceCache();
+  };
+
+  const handleExportObz = () => {
+    const labels = Object.fromEntries(boards.map(b => [b.id, b.label]));
+    downloadBlob(exportObz(vocabulary, labels, profile.savedTiles), datedFilename('voicebridge-boards', 'obz'));
+  };
+
+  const handleExportObf = () => {
+    const board = boards.find(b => b.id === exportBoardId);
+    if (!board) return;
+    downloadBlob(exportObf(board.id, board.label, vocabulary[board.id] || []), `${board.label}.obf`);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      await onImportBoards(file);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleBackup = () => {
+    downloadBlob(createBackup(profile), datedFilename('voicebridge-backup', 'json'));
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBackupError(null);
+    try {
+      setPendingBackup(await parseBackup(file));
+    } catch (err: any) {
+      console.error("Backup read failed", err);
+      setBackupError(err.message || "Could not read this backup file.");
+    }
+  };
+
+  const handleRestore = (mode: RestoreMode) => {
+    if (!pendingBackup) return;
+    onRestoreProfile(restoreBackup(pendingBackup, profile, mode));
+    setPendingBackup(null);
+  };
+
   return (
     <div className="p-4 md:p-6 h-full overflow-y-auto bg-slate-50">
+      <RestoreBackupModal
+        summary={pendingBackup ? summarizeBackup(pendingBackup, profile) : null}
+        onClose={() => setPendingBackup(null)}
+        onRestore={handleRestore}
+      />
+
       <div className="max-w-5xl mx-auto space-y-6 pb-20">
         
         {/* Header */}
@@ -86,7 +237,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
              </button>
           </div>
           <button 
-            onClick={() => onSettingsChange(DEFAULT_SETTINGS)}
+            onClick={() => onSettingsChange(defaultSettings)}
             className="text-sm font-semibold text-slate-500 hover:text-red-500 hover:bg-red-50 px-4 py-2 rounded-lg transition-colors"
           >
             Reset Defaults
@@ -185,6 +336,188 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
               </div>
             </div>
 
+            {/* Vocabulary Level Card */}
+            <div className="bg-white rounded-xl p-5 shadow-sm border border-slate-200">
+              <h3 className="text-lg font-bold text-slate-800 mb-2 flex items-center gap-2">
+                <Layers size={20} className="text-emerald-500" />
+                Vocabulary Level
+              </h3>
+              <p className="text-sm text-slate-500 mb-4">
+                Start with a few core words and unlock more over time. Locked words keep their place, so nothing moves as new words appear.
+              </p>
+
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {[{ level: 0, label: 'All Words', description: 'Every word is available' }, ...VOCABULARY_LEVELS].map(option => (
+                  <button
+                    key={option.level}
+                    onClick={() => onSettingsChange({ ...settings, vocabularyLevel: option.level })}
+                    className={`p-3 rounded-xl border-2 text-left transition-all
+                      ${settings.vocabularyLevel === option.level
+                        ? 'border-emerald-500 bg-emerald-50'
+                        : 'border-slate-200 bg-slate-50 hover:border-emerald-300'
+                      }
+                    `}
+                  >
+                    <span className="font-bold text-slate-700 block">{option.level ? `${option.level}. ${option.label}` : option.label}</span>
+                    <span className="text-xs text-slate-500">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+
+              {settings.vocabularyLevel > 0 && (
+                <>
+                  <label className="text-sm font-semibold text-slate-600 block mb-2">Locked Words</label>
+                  <div className="flex bg-slate-100 p-1 rounded-xl">
+                    {TILE_VISIBILITY_OPTIONS.filter(option => option.id !== 'visible').map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => onSettingsChange({ ...settings, lockedTiles: option.id as UserSettings['lockedTiles'] })}
+                        className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all
+                          ${settings.lockedTiles === option.id
+                            ? 'bg-white text-slate-800 shadow-sm'
+                            : 'text-slate-500 hover:text-slate-700'
+                          }
+                        `}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Board Sharing Card */}
+            <div className="bg-white rounded-xl p-5 shadow-sm border border-slate-200">
+              <h3 className="text-lg font-bold text-slate-800 mb-2 flex items-center gap-2">
+                <Share2 size={20} className="text-sky-500" />
+                Share Boards
+              </h3>
+              <p className="text-sm text-slate-500 mb-4">
+                Move boards to and from other AAC apps using the Open Board Format (.obf / .obz).
+              </p>
+
+              <div className="space-y-3">
+                <button
+                  onClick={handleExportObz}
+                  className="w-full py-3 bg-sky-50 hover:bg-sky-100 text-sky-700 font-bold rounded-xl border border-sky-200 flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Package size={20} />
+                  Export All Boards (.obz)
+                </button>
+
+                <div className="flex gap-2">
+                  <select
+                    value={exportBoardId}
+                    onChange={(e) => setExportBoardId(e.target.value)}
+                    className="flex-1 min-w-0 bg-slate-100 rounded-xl px-3 text-sm font-bold text-slate-600 outline-none"
+                  >
+                    {boards.map(board => <option key={board.id} value={board.id}>{board.label}</option>)}
+                  </select>
+                  <button
+                    onClick={handleExportObf}
+                    className="py-3 px-4 bg-slate-100 hover:bg-slate-200 text-slate-700 font-bold rounded-xl flex items-center justify-center gap-2 transition-colors"
+                  >
+                    <Download size={18} />
+                    Export .obf
+                  </button>
+                </div>
+
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isImporting}
+                  className="w-full py-3 bg-white hover:bg-slate-50 text-slate-700 font-bold rounded-xl border-2 border-dashed border-slate-300 flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+                >
+                  {isImporting ? <Loader2 size={20} className="animate-spin" /> : <Upload size={20} />}
+                  {isImporting ? 'Importing...' : 'Import Board (.obf / .obz)'}
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".obf,.obz,application/json,application/zip"
+                  className="hidden"
+                  onChange={handleImportFile}
+                />
+              </div>
+            </div>
+
+            {/* Backup & Restore Card */}
+            <div className="bg-white rounded-xl p-5 shadow-sm border border-slate-200">
+              <h3 className="text-lg font-bold text-slate-800 mb-2 flex items-center gap-2">
+                <DatabaseBackup size={20} className="text-rose-500" />
+                Backup & Restore
+              </h3>
+              <p className="text-sm text-slate-500 mb-4">
+                Save your phrases, pinned tiles, board changes and settings to one file to move them to another device.
+              </p>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={handleBackup}
+                  className="flex-1 py-3 bg-rose-50 hover:bg-rose-100 text-rose-700 font-bold rounded-xl border border-rose-200 flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Download size={20} />
+                  Backup
+                </button>
+                <button
+                  onClick={() => restoreInputRef.current?.click()}
+                  className="flex-1 py-3 bg-slate-100 hover:bg-slate-200 text-slate-700 font-bold rounded-xl flex items-center justify-center gap-2 transition-colors"
+                >
+                  <ArchiveRestore size={20} />
+                  Restore
+                </button>
+              </div>
+              <input
+                ref={restoreInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleRestoreFile}
+              />
+              {backupError && (
+                <p className="mt-3 text-sm font-semibold text-red-600">{backupError}</p>
+              )}
+            </div>
+
+            {/* Storage Card */}
+            {storageEstimate && (
+              <div className="bg-white rounded-xl p-5 shadow-sm border border-slate-200">
+                <h3 className="text-lg font-bold text-slate-800 mb-2 flex items-center gap-2">
+                  <HardDrive size={20} className="text-slate-500" />
+                  Storage
+                </h3>
+                <div className="flex justify-between text-xs font-bold text-slate-500 mb-2">
+                  <span>{formatBytes(storageEstimate.usage)} used</span>
+                  <span>{formatBytes(storageEstimate.quota)} available</span>
+                </div>
+                <div className="h-4 bg-slate-100 rounded-full overflow-hidden border border-slate-200">
+                  <div
+                    className={`h-full transition-all duration-300 ease-out ${isStorageNearlyFull(storageEstimate) ? 'bg-red-500' : 'bg-blue-500'}`}
+                    style={{ width: `${storageEstimate.quota ? Math.max(1, Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)) : 0}%` }}
+                  />
+                </div>
+                {isStorageNearlyFull(storageEstimate) && (
+                  <p className="mt-3 text-sm font-semibold text-red-600">
+                    Storage is almost full. Remove unused pictures or saved phrases, or make a backup.
+                  </p>
+                )}
+                {storageEstimate.persisted ? (
+                  <p className="mt-3 text-sm text-emerald-700 flex items-center gap-2">
+                    <ShieldCheck size={16} />
+                    Protected from automatic clearing by the browser
+                  </p>
+                ) : (
+                  <button
+                    onClick={handlePersistStorage}
+                    className="mt-4 w-full py-3 bg-slate-100 hover:bg-slate-200 text-slate-700 font-bold rounded-xl flex items-center justify-center gap-2 transition-colors"
+                  >
+                    <ShieldCheck size={20} />
+                    Keep My Data on This Device
+                  </button>
+                )}
+              </div>
+            )}
+
           </div>
 
           {/* RIGHT COLUMN: Audio */}
@@ -197,7 +530,7 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
                 Offline Mode
               </h3>
               <p className="text-sm text-slate-500 mb-4">
-                Download all voice assets for <strong>"{settings.voiceName}"</strong> so the app speaks instantly without internet.
+                Download all Gemini voice assets for <strong>"{settings.voiceName}"</strong> so the app speaks instantly without internet.
               </p>
               
               {!downloadProgress ? (
@@ -225,6 +558,28 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
                    </p>
                 </div>
               )}
+
+              {voiceCache.length > 0 && (
+                <div className="mt-4 rounded-xl border border-slate-200 divide-y divide-slate-100">
+                  {voiceCache.map(entry => (
+                    <div key={entry.voice} className="flex items-center justify-between px-4 py-2">
+                      <span className="text-sm text-slate-600">
+                        <strong className="text-slate-800">{entry.voice}</strong>
+                        <span className="ml-2">{entry.phrases} phrases · {formatBytes(entry.bytes)}</span>
+                      </span>
+                      <button
+                        onClick={() => handleClearVoiceCache(entry.voice)}
+                        disabled={!!downloadProgress}
+                        className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                        title={`Clear ${entry.voice} voice cache`}
+                        aria-label={`Clear ${entry.voice} voice cache`}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Voice Selection Card */}
@@ -234,15 +589,43 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
                 Voice Selection
               </h3>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                {VOICE_OPTIONS.map((voice) => {
-                  const isSelected = settings.voiceName === voice.id;
+              <label className="block text-sm font-semibold text-slate-600 mb-2">Speak with</label>
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {SPEECH_ENGINE_OPTIONS.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => onSettingsChange({ ...settings, speechEngine: option.id })}
+                    className={`p-3 rounded-xl border-2 text-left transition-all
+                      ${settings.speechEngine === option.id ? 'border-blue-500 bg-blue-50/50' : 'border-slate-100 hover:border-slate-200'}
+                    `}
+                  >
+                    <span className={`block font-bold ${settings.speechEngine === option.id ? 'text-blue-700' : 'text-slate-700'}`}>{option.label}</span>
+                    <span className="block text-xs text-slate-500">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+
+              <label className="block text-sm font-semibold text-slate-600 mb-2">If it fails, use</label>
+              <select
+                value={settings.fallbackSpeechEngine}
+                onChange={(e) => onSettingsChange({ ...settings, fallbackSpeechEngine: e.target.value as SpeechEngineId | 'none' })}
+                className="w-full p-3 mb-5 border-2 border-slate-200 rounded-xl font-semibold text-slate-700 focus:border-blue-500 outline-none"
+              >
+                {SPEECH_ENGINE_OPTIONS.filter(option => option.id !== settings.speechEngine).map(option => (
+                  <option key={option.id} value={option.id}>{option.label} voice</option>
+                ))}
+                <option value="none">Nothing (stay silent)</option>
+              </select>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-h-[28rem] overflow-y-auto">
+                {engineVoices.map((voice) => {
+                  const isSelected = getEngineVoice(settings, settings.speechEngine) === voice.id;
                   const isPlaying = playingVoice === voice.id;
 
                   return (
                     <div 
                       key={voice.id}
-                      onClick={() => onSettingsChange({ ...settings, voiceName: voice.id })}
+                      onClick={() => onSettingsChange(withEngineVoice(settings, settings.speechEngine, voice.id))}
                       className={`
                         relative group p-3 rounded-xl border-2 cursor-pointer transition-all
                         ${isSelected 
@@ -263,9 +646,9 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          handleVoicePreview(voice.id);
+                          handleVoicePreview(voice);
                         }}
-                        disabled={!!playingVoice}
+                        disabled={playingVoice !== null}
                         className={`
                           w-full py-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 transition-colors
                           ${isSelected 
@@ -324,23 +707,201 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
                       
                       {/* Dwell Config */}
                       {safeSettings.accessibility.mode === 'dwell' && (
-                         <div className="mt-4 pt-4 border-t border-orange-200">
-                            <div className="flex justify-between items-center mb-2">
-                               <span className="text-xs font-bold text-slate-600">Hover Time needed</span>
-                               <span className="text-xs font-bold text-orange-600">{safeSettings.accessibility.dwellTime / 1000}s</span>
+                         <div className="mt-4 pt-4 border-t border-orange-200 space-y-4" onClick={(e) => e.stopPropagation()}>
+                            <div>
+                               <div className="flex justify-between items-center mb-2">
+                                  <span className="text-xs font-bold text-slate-600">Hover Time needed</span>
+                                  <span className="text-xs font-bold text-orange-600">{safeSettings.accessibility.dwellTime / 1000}s</span>
+                               </div>
+                               <input 
+                                  type="range" min="500" max="3000" step="100"
+                                  value={safeSettings.accessibility.dwellTime}
+                                  onChange={(e) => updateAccessibility('dwellTime', Number(e.target.value))}
+                                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                               />
+                            </div>
+
+                            <div>
+                               <div className="flex justify-between items-center mb-2">
+                                  <span className="text-xs font-bold text-slate-600">Pause after each selection</span>
+                                  <span className="text-xs font-bold text-orange-600">{safeSettings.accessibility.dwellCooldown / 1000}s</span>
+                               </div>
+                               <input 
+                                  type="range" min="0" max="3000" step="100"
+                                  value={safeSettings.accessibility.dwellCooldown}
+                                  onChange={(e) => updateAccessibility('dwellCooldown', Number(e.target.value))}
+                                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                               />
+                               <p className="text-[10px] text-slate-400 mt-1">A button won't repeat until you move off it and back.</p>
+                            </div>
+
+                            <div>
+                               <span className="text-xs font-bold text-slate-600 block mb-2">Progress Indicator</span>
+                               <div className="grid grid-cols-3 gap-2">
+                                  {DWELL_INDICATOR_OPTIONS.map(option => (
+                                     <button
+                                        key={option.id}
+                                        onClick={() => updateAccessibility('dwellIndicator', option.id)}
+                                        className={`p-2 rounded-lg border-2 text-left transition-all ${safeSettings.accessibility.dwellIndicator === option.id ? 'border-orange-500 bg-white' : 'border-slate-200 bg-slate-50 hover:border-orange-300'}`}
+                                     >
+                                        <span className="text-sm font-bold text-slate-700 block">{option.label}</span>
+                                        <span className="text-[10px] text-slate-500 leading-tight block">{option.description}</span>
+                                     </button>
+                                  ))}
+                               </div>
+                            </div>
+                         </div>
+                      )}
+                   </div>
+
+                   <div className={`p-4 rounded-xl border-2 cursor-pointer transition-all ${safeSettings.accessibility.mode === 'scan' ? 'border-orange-500 bg-orange-50' : 'border-slate-100 bg-slate-50'}`}
+                        onClick={() => updateAccessibility('mode', 'scan')}
+                   >
+                      <div className="flex justify-between items-center mb-1">
+                         <span className="font-bold text-slate-800">Switch Scanning</span>
+                         {safeSettings.accessibility.mode === 'scan' && <Check size={20} className="text-orange-600"/>}
+                      </div>
+                      <p className="text-xs text-slate-500">Buttons light up in turn; press a switch (Space or Enter) to choose. For one or two physical switches.</p>
+
+                      {/* Scan Config */}
+                      {safeSettings.accessibility.mode === 'scan' && (
+                         <div className="mt-4 pt-4 border-t border-orange-200 space-y-4" onClick={(e) => e.stopPropagation()}>
+                            <div>
+                               <span className="text-xs font-bold text-slate-600 block mb-2">Scan Pattern</span>
+                               <div className="grid grid-cols-3 gap-2">
+                                  {SCAN_METHOD_OPTIONS.map(option => (
+                                     <button
+                                        key={option.id}
+                                        onClick={() => updateAccessibility('scanMethod', option.id)}
+                                        className={`p-2 rounded-lg border-2 text-left transition-all ${safeSettings.accessibility.scanMethod === option.id ? 'border-orange-500 bg-white' : 'border-slate-200 bg-slate-50 hover:border-orange-300'}`}
+                                     >
+                                        <span className="text-sm font-bold text-slate-700 block">{option.label}</span>
+                                        <span className="text-[10px] text-slate-500 leading-tight block">{option.description}</span>
+                                     </button>
+                                  ))}
+                               </div>
+                            </div>
+
+                            <div>
+                               <span className="text-xs font-bold text-slate-600 block mb-2">Switches</span>
+                               <div className="grid grid-cols-2 gap-2">
+                                  <button
+                                     onClick={() => updateAccessibility('scanInput', 'auto')}
+                                     className={`p-2 rounded-lg border-2 text-left transition-all ${safeSettings.accessibility.scanInput === 'auto' ? 'border-orange-500 bg-white' : 'border-slate-200 bg-slate-50 hover:border-orange-300'}`}
+                                  >
+                                     <span className="text-sm font-bold text-slate-700 block">One Switch</span>
+                                     <span className="text-[10px] text-slate-500 block">Moves automatically; Space or Enter selects</span>
+                                  </button>
+                                  <button
+                                     onClick={() => updateAccessibility('scanInput', 'step')}
+                                     className={`p-2 rounded-lg border-2 text-left transition-all ${safeSettings.accessibility.scanInput === 'step' ? 'border-orange-500 bg-white' : 'border-slate-200 bg-slate-50 hover:border-orange-300'}`}
+                                  >
+                                     <span className="text-sm font-bold text-slate-700 block">Two Switches</span>
+                                     <span className="text-[10px] text-slate-500 block">Space moves, Enter selects</span>
+                                  </button>
+                               </div>
+                            </div>
+
+                            {safeSettings.accessibility.scanInput === 'auto' && (
+                               <div>
+                                  <div className="flex justify-between items-center mb-2">
+                                     <span className="text-xs font-bold text-slate-600">Scan Speed</span>
+                                     <span className="text-xs font-bold text-orange-600">{safeSettings.accessibility.scanRate / 1000}s per step</span>
+                                  </div>
+                                  <input
+                                     type="range" min="500" max="5000" step="250"
+                                     value={safeSettings.accessibility.scanRate}
+                                     onChange={(e) => updateAccessibility('scanRate', Number(e.target.value))}
+                                     className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                                  />
+                               </div>
+                            )}
+
+                            <div>
+                               <div className="flex justify-between items-center mb-2">
+                                  <span className="text-xs font-bold text-slate-600">Loops Before Stepping Back</span>
+                                  <span className="text-xs font-bold text-orange-600">{safeSettings.accessibility.scanLoops}</span>
+                               </div>
+                               <input
+                                  type="range" min="1" max="10" step="1"
+                                  value={safeSettings.accessibility.scanLoops}
+                                  onChange={(e) => updateAccessibility('scanLoops', Number(e.target.value))}
+                                  className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-orange-500"
+                               />
+                            </div>
+
+                            <div className="flex items-center justify-between">
+                               <div>
+                                  <span className="text-xs font-bold text-slate-600 block">Auditory Cues</span>
+                                  <span className="text-[10px] text-slate-500">Quietly speak each highlighted item using the device voice.</span>
+                               </div>
+                               <button
+                                  onClick={() => updateAccessibility('scanAudioCues', !safeSettings.accessibility.scanAudioCues)}
+                                  className={`w-14 h-8 rounded-full transition-colors relative shrink-0 ${safeSettings.accessibility.scanAudioCues ? 'bg-orange-500' : 'bg-slate-200'}`}
+                               >
+                                  <div className={`absolute top-1 w-6 h-6 bg-white rounded-full transition-transform shadow-sm ${safeSettings.accessibility.scanAudioCues ? 'left-7' : 'left-1'}`} />
+                               </button>
                             </div>
-                            <input 
-                               type="range" min="500" max="3000" step="100"
-                               value={safeSettings.accessibility.dwellTime}
-                               onChange={(e) => updateAccessibility('dwellTime', Number(e.target.value))}
-                               className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-orange-500"
-                            />
                          </div>
                       )}
                    </div>
                 </div>
              </div>
 
+             {/* Keys & Switches */}
+             <div className="bg-white rounded-xl p-5 shadow-sm border border-slate-200">
+                <div className="flex justify-between items-start mb-2">
+                   <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+                      <Keyboard size={20} className="text-orange-500" />
+                      Keys & Switches
+                   </h3>
+                   <button
+                      onClick={() => onSettingsChange({ ...settings, hotkeys: { ...DEFAULT_SETTINGS.hotkeys } })}
+                      className="text-xs font-bold text-slate-500 hover:text-slate-700 flex items-center gap-1 px-2 py-1 rounded-lg hover:bg-slate-100"
+                   >
+                      <RotateCcw size={14} /> Reset
+                   </button>
+                </div>
+                <p className="text-sm text-slate-500 mb-4">
+                   Arrow keys move between tiles. Bind shortcuts below to any key, including the keys a Bluetooth switch interface sends.
+                </p>
+
+                <div className="divide-y divide-slate-100">
+                   {HOTKEY_ACTIONS.map(action => (
+                      <div key={action.id} className="flex items-center justify-between gap-3 py-3">
+                         <div className="min-w-0">
+                            <span className="font-bold text-slate-700 block">{action.label}</span>
+                            <span className="text-xs text-slate-500">{action.description}</span>
+                         </div>
+                         <div className="flex items-center gap-2 shrink-0">
+                            <button
+                               onClick={() => setCapturingHotkey(capturingHotkey === action.id ? null : action.id)}
+                               className={`min-w-[8rem] px-3 py-2 rounded-lg border-2 font-mono text-sm font-bold transition-colors
+                                  ${capturingHotkey === action.id
+                                    ? 'border-orange-500 bg-orange-50 text-orange-700 animate-pulse'
+                                    : 'border-slate-200 bg-slate-50 text-slate-700 hover:border-orange-300'}
+                               `}
+                            >
+                               {capturingHotkey === action.id ? 'Press a key…' : formatKeyCombo(settings.hotkeys[action.id])}
+                            </button>
+                            {settings.hotkeys[action.id] && capturingHotkey !== action.id && (
+                               <button
+                                  onClick={() => updateHotkey(action.id, '')}
+                                  className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50"
+                                  aria-label={`Remove ${action.label} shortcut`}
+                               >
+                                  <Trash2 size={16} />
+                               </button>
+                            )}
+                         </div>
+                      </div>
+                   ))}
+                </div>
+                {capturingHotkey && (
+                   <p className="text-xs text-slate-400 mt-2">Press Escape to cancel.</p>
+                )}
+             </div>
+
              {/* Visual Accessibility */}
              <div className="space-y-6">
                 <div className="bg-white rounded-xl p-5 shadow-sm border border-slate-200">
@@ -402,27 +963,158 @@ const SettingsView: React.FC<SettingsViewProps> = ({ settings, onSettingsChange
                             <div className={`absolute top-1 w-6 h-6 bg-white rounded-full transition-transform shadow-sm ${safeSettings.accessibility.speakOnHover ? 'left-7' : 'left-1'}`} />
                          </button>
                       </div>
+
+                      <div className="pt-4 border-t border-slate-100">
+                         <span className="font-bold text-slate-700 block">Speak On Select</span>
+                         <span className="text-xs text-slate-500">Hear each choice as it is added to the sentence.</span>
+                         <div className="grid grid-cols-3 gap-2 mt-3">
+                            {([
+                              { id: 'silent', label: 'Off' },
+                              { id: 'word', label: 'Word' },
+                              { id: 'sentence', label: 'Sentence' },
+                            ] as const).map(option => (
+                              <button
+                                key={option.id}
+                                onClick={() => updateAccessibility('selectionFeedback', option.id)}
+                                className={`py-2 rounded-lg text-sm font-bold border-2 transition-all
+                                  ${safeSettings.accessibility.selectionFeedback === option.id ? 'border-purple-500 bg-purple-50 text-purple-700' : 'border-slate-100 text-slate-600 hover:border-slate-200'}
+                                `}
+                              >
+                                {option.label}
+                              </button>
+                            ))}
+                         </div>
+
+                         {safeSettings.accessibility.selectionFeedback !== 'silent' && (
+                            <div className="mt-4 space-y-4">
+                               <div>
+                                  <label className="text-sm font-bold text-slate-700 block mb-2">Feedback Voice</label>
+                                  <select
+                                    value={safeSettings.accessibility.feedbackVoiceName}
+                                    onChange={(e) => updateAccessibility('feedbackVoiceName', e.target.value)}
+                                    className="w-full p-2 border-2 border-slate-200 rounded-lg text-sm font-semibold text-slate-700 focus:border-purple-500 outline-none"
+                                  >
+                                    <option value="">Same as speaking voice</option>
+                                    {VOICE_OPTIONS.map(voice => <option key={voice.id} value={voice.id}>{voice.label} – {voice.description}</option>)}
+                                  </select>
+                                  <p className="text-xs text-slate-400 mt-1">A different voice helps tell feedback apart from spoken messages. Applies to Gemini voices.</p>
+                               </div>
+                               <div>
+                                  <div className="flex justify-between items-center mb-2">
+                                     <label className="text-sm font-bold text-slate-700">Feedback Volume</label>
+                                     <span className="text-xs font-bold text-slate-500">{Math.round(safeSettings.accessibility.feedbackVolume * 100)}%</span>
+                                  </div>
+                                  <input
+                                    type="range"
+                                    min="0.1"
+                                    max="1"
+                                    step="0.1"
+                                    value={safeSettings.accessibility.feedbackVolume}
+                                    onChange={(e) => updateAccessibility('feedbackVolume', Number(e.target.value))}
+                                    className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                                  />
+                               </div>
+                            </div>
+                         )}
+                      </div>
                       
                       {safeSettings.accessibility.mode === 'standard' && (
-                         <div className="pt-4 border-t border-slate-100">
-                             <div className="flex justify-between items-center mb-2">
-                                <label className="text-sm font-bold text-slate-700">Touch Filter (Hold Time)</label>
-                                <span className="text-xs font-bold text-slate-500">{safeSettings.accessibility.clickHoldTime}ms</span>
+                         <div className="pt-4 border-t border-slate-100 space-y-4">
+                             <div>
+                                <label className="text-sm font-bold text-slate-700 block">Touch Access</label>
+                                <p className="text-xs text-slate-400 mt-1">How taps on tiles, the keyboard and the sentence bar are filtered. Helps with tremors and unsteady hands.</p>
+                             </div>
+
+                             <div>
+                                <div className="flex justify-between items-center mb-2">
+                                   <span className="text-xs font-bold text-slate-600">Hold to Select</span>
+                                   <span className="text-xs font-bold text-slate-500">{safeSettings.accessibility.clickHoldTime}ms</span>
+                                </div>
+                                <input
+                                  type="range"
+                                  min="0"
+                                  max="1000"
+                                  step="100"
+                                  value={safeSettings.accessibility.clickHoldTime}
+                                  onChange={(e) => updateAccessibility('clickHoldTime', Number(e.target.value))}
+                                  className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                                />
+                                <p className="text-xs text-slate-400 mt-1">
+                                   {safeSettings.accessibility.clickHoldTime === 0 
+                                     ? "Instant click (Normal)" 
+                                     : "Button must be held down to activate."}
+                                </p>
+                             </div>
+
+                             <div>
+                                <div className="flex justify-between items-center mb-2">
+                                   <span className="text-xs font-bold text-slate-600">Ignore Repeated Touches</span>
+                                   <span className="text-xs font-bold text-slate-500">{safeSettings.accessibility.touchRepeatDelay === 0 ? 'Off' : `${safeSettings.accessibility.touchRepeatDelay}ms`}</span>
+                                </div>
+                                <input
+                                  type="range"
+                                  min="0"
+                                  max="3000"
+                                  step="100"
+                                  value={safeSettings.accessibility.touchRepeatDelay}
+                                  onChange={(e) => updateAccessibility('touchRepeatDelay', Number(e.target.value))}
+                                  className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                                />
+                                <p className="text-xs text-slate-400 mt-1">Touches this soon after a selection are ignored.</p>
+                             </div>
+
+                             <div>
+                                <span className="text-xs font-bold text-slate-600 block mb-2">Select When</span>
+                                <div className="grid grid-cols-2 gap-2">
+                                   <button
+                                      onClick={() => updateAccessibility('touchSelectOn', 'release')}
+                                      className={`p-2 rounded-lg border-2 text-left transition-all ${safeSettings.accessibility.touchSelectOn === 'release' ? 'border-purple-500 bg-white' : 'border-slate-200 bg-slate-50 hover:border-purple-300'}`}
+                                   >
+                                      <span className="text-sm font-bold text-slate-700 block">On Release</span>
+                                      <span className="text-[10px] text-slate-500 block">When the finger lifts</span>
+                                   </button>
+                                   <button
+                                      onClick={() => updateAccessibility('touchSelectOn', 'press')}
+                                      className={`p-2 rounded-lg border-2 text-left transition-all ${safeSettings.accessibility.touchSelectOn === 'press' ? 'border-purple-500 bg-white' : 'border-slate-200 bg-slate-50 hover:border-purple-300'}`}
+                                   >
+                                      <span className="text-sm font-bold text-slate-700 block">On Touch</span>
+                                      <span className="text-[10px] text-slate-500 block">As soon as it's touched</span>
+                                   </button>
+                                </div>
+                             </div>
+
+                             <div>
+                                <span className="text-xs font-bold text-slate-600 block mb-2">When Sliding Across Buttons</span>
+                                <div className="grid grid-cols-2 gap-2">
+                                   <button
+                                      onClick={() => updateAccessibility('touchDragTarget', 'first')}
+                                      className={`p-2 rounded-lg border-2 text-left transition-all ${safeSettings.accessibility.touchDragTarget === 'first' ? 'border-purple-500 bg-white' : 'border-slate-200 bg-slate-50 hover:border-purple-300'}`}
+                                   >
+                                      <span className="text-sm font-bold text-slate-700 block">First Touched</span>
+                                      <span className="text-[10px] text-slate-500 block">Where the finger landed</span>
+                                   </button>
+                                   <button
+                                      onClick={() => updateAccessibility('touchDragTarget', 'last')}
+                                      className={`p-2 rounded-lg border-2 text-left transition-all ${safeSettings.accessibility.touchDragTarget === 'last' ? 'border-purple-500 bg-white' : 'border-slate-200 bg-slate-50 hover:border-purple-300'}`}
+                                   >
+                                      <span className="text-sm font-bold text-slate-700 block">Last Touched</span>
+                                      <span className="text-[10px] text-slate-500 block">Where the finger ended up</span>
+                                   </button>
+                                </div>
+                             </div>
+
+                             <div className="flex items-center justify-between gap-3">
+                                <div>
+                                   <span className="text-xs font-bold text-slate-600 block">Ignore Multi-Finger Touches</span>
+                                   <span className="text-[10px] text-slate-500">Nothing is selected while two or more fingers or a palm are down.</span>
+                                </div>
+                                <button
+                                   onClick={() => updateAccessibility('touchIgnoreMultiFinger', !safeSettings.accessibility.touchIgnoreMultiFinger)}
+                                   className={`w-14 h-8 rounded-full transition-colors relative shrink-0 ${safeSettings.accessibility.touchIgnoreMultiFinger ? 'bg-purple-500' : 'bg-slate-200'}`}
+                                >
+                                   <div className={`absolute top-1 w-6 h-6 bg-white rounded-full transition-transform shadow-sm ${safeSettings.accessibility.touchIgnoreMultiFinger ? 'left-7' : 'left-1'}`} />
+                                </button>
                              </div>
-                             <input
-                               type="range"
-                               min="0"
-                               max="1000"
-                               step="100"
-                               value={safeSettings.accessibility.clickHoldTime}
-                               onChange={(e) => updateAccessibility('clickHoldTime', Number(e.target.value))}
-                               className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-purple-500"
-                             />
-                             <p className="text-xs text-slate-400 mt-1">
-                                {safeSettings.accessibility.clickHoldTime === 0 
-                                  ? "Instant click (Normal)" 
-                                  : "Button must be held down to activate. Helps with tremors."}
-                             </p>
                          </div>
                       )}
                    </div>
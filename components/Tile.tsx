@@ -1,7 +1,8 @@
 
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useEffect } from 'react';
 import { TileData, UserSettings } from '../types';
-import { ArrowLeft, Pin } from 'lucide-react';
+import { ArrowLeft, Pin, Folder } from 'lucide-react';
+import { webSpeechEngine } from '../services/speech';
 
 interface TileProps {
   data: TileData;
@@ -10,121 +11,116 @@ interface TileProps {
   settings?: UserSettings;
   isPinned?: boolean;
   onTogglePin?: () => void;
+  onLongPress?: (tile: TileData) => void; // Long-press or right-click, e.g. to pick another word form
+  fillCell?: boolean; // Fill a fixed-grid cell and scale the contents with it
 }
 
+const LONG_PRESS_MS = 600;
+
 const Tile: React.FC<TileProps> = ({ 
   data, 
   onClick, 
   variant = 'normal', 
   settings, 
   isPinned, 
-  onTogglePin 
+  onTogglePin,
+  onLongPress,
+  fillCell
 }) => {
-  const [dwellProgress, setDwellProgress] = useState(0);
-  const dwellTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const startTime = useRef<number>(0);
-  const animationFrame = useRef<number | null>(null);
-
   // Constants
   const isHighContrast = settings?.accessibility?.highContrast;
-  const isDwellMode = settings?.accessibility?.mode === 'dwell';
-  const dwellTime = settings?.accessibility?.dwellTime || 1000;
   const gridGap = settings?.accessibility?.gridGap || 0;
-  const clickHoldTime = settings?.accessibility?.clickHoldTime || 0;
+  // Holding is how dwell, hold-to-select and select-on-press users choose a tile, so long-press would get in the way
+  const allowLongPress = (settings?.accessibility?.mode || 'standard') === 'standard'
+    && !settings?.accessibility?.clickHoldTime
+    && settings?.accessibility?.touchSelectOn !== 'press';
   const speakOnHover = settings?.accessibility?.speakOnHover || false;
+  // Greyed-out tiles hold their place but can't be selected (e.g. words not yet unlocked)
+  const isDisabled = data.visibility === 'disabled';
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (dwellTimer.current) clearTimeout(dwellTimer.current);
-      if (animationFrame.current) cancelAnimationFrame(animationFrame.current);
+      if (longPressTimer.current) clearTimeout(longPressTimer.current);
     };
   }, []);
 
   const handleMouseEnter = () => {
     // Auditory Hover
-    if (speakOnHover && 'speechSynthesis' in window) {
-      // Use browser TTS for quick hover feedback (Gemini is too slow for hover)
-      const u = new SpeechSynthesisUtterance(data.label);
-      u.rate = 1.2;
-      window.speechSynthesis.cancel(); // Stop previous
-      window.speechSynthesis.speak(u);
-    }
-
-    // Dwell Logic
-    if (isDwellMode && variant === 'normal') {
-      startTime.current = Date.now();
-      setDwellProgress(0);
-
-      const updateProgress = () => {
-        const elapsed = Date.now() - startTime.current;
-        const progress = Math.min((elapsed / dwellTime) * 100, 100);
-        setDwellProgress(progress);
-        
-        if (progress < 100) {
-          animationFrame.current = requestAnimationFrame(updateProgress);
-        } else {
-          // Trigger Click
-          handleClick();
-          setDwellProgress(0);
-        }
-      };
-      
-      animationFrame.current = requestAnimationFrame(updateProgress);
+    if (speakOnHover && !isDisabled && webSpeechEngine.isAvailable()) {
+      // Use the device voice for quick hover feedback (Gemini is too slow for hover)
+      webSpeechEngine.cancel(); // Stop previous
+      webSpeechEngine.speak(data.label, settings?.webSpeechVoice || '', { rate: 1.2 })
+        .catch(e => console.warn("Hover speech failed", e));
     }
   };
 
-  const handleMouseLeave = () => {
-    if (isDwellMode) {
-      if (animationFrame.current) cancelAnimationFrame(animationFrame.current);
-      setDwellProgress(0);
-    }
+  // Long-press for alternatives
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressFired = useRef(false);
+
+  const handlePointerDown = () => {
+    longPressFired.current = false;
+    if (!onLongPress || !allowLongPress) return;
+    longPressTimer.current = setTimeout(() => {
+      longPressFired.current = true;
+      onLongPress(data);
+    }, LONG_PRESS_MS);
   };
 
-  // Filter click based on Click Hold Time (Tremor filter)
-  const [isPressing, setIsPressing] = useState(false);
-  const pressTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  const handleMouseDown = () => {
-    if (clickHoldTime > 0) {
-      setIsPressing(true);
-      pressTimer.current = setTimeout(() => {
-        setIsPressing(false); // Visual feedback end
-        onClick(data);
-      }, clickHoldTime);
-    }
+  const cancelLongPress = () => {
+    if (longPressTimer.current) clearTimeout(longPressTimer.current);
+    longPressTimer.current = null;
   };
 
-  const handleMouseUp = () => {
-    if (clickHoldTime > 0) {
-      if (pressTimer.current) clearTimeout(pressTimer.current);
-      setIsPressing(false);
+  const handleContextMenu = (e: React.MouseEvent) => {
+    if (!onLongPress) return;
+    e.preventDefault();
+    // Touch browsers also raise contextmenu on long-press; don't open twice
+    cancelLongPress();
+    if (!longPressFired.current) {
+      longPressFired.current = true;
+      onLongPress(data);
     }
   };
 
   const handleClick = () => {
-    // If hold time is set, ignore normal clicks (rely on MouseDown timer)
-    if (clickHoldTime > 0) return;
+    // The press already opened the alternatives
+    if (longPressFired.current) {
+      longPressFired.current = false;
+      return;
+    }
     onClick(data);
   };
 
   // --- STYLES ---
 
   // Base Styles
-  let baseClasses = "flex flex-col items-center justify-center rounded-xl shadow-sm transition-all duration-200 active:scale-95 border-b-4 select-none relative overflow-hidden";
+  let baseClasses = "flex flex-col items-center justify-center rounded-xl shadow-sm transition-all duration-200 active:scale-95 border-b-4 select-none relative overflow-hidden focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-500 focus-visible:ring-offset-2";
   
   // High Contrast Override
   if (isHighContrast) {
-    baseClasses = "flex flex-col items-center justify-center rounded-xl border-4 transition-all duration-100 active:scale-95 select-none relative overflow-hidden bg-black border-yellow-400 text-yellow-400 shadow-none";
+    baseClasses = "flex flex-col items-center justify-center rounded-xl border-4 transition-all duration-100 active:scale-95 select-none relative overflow-hidden bg-black border-yellow-400 text-yellow-400 shadow-none focus:outline-none focus-visible:ring-4 focus-visible:ring-white focus-visible:ring-offset-2 focus-visible:ring-offset-black";
+  }
+
+  if (isDisabled) {
+    baseClasses = baseClasses.replace('active:scale-95', 'opacity-40 grayscale cursor-not-allowed');
   }
 
   // Dynamic Styles based on Settings
   const isCustomSized = variant === 'normal' && settings;
-  const tileStyle = isCustomSized ? { height: `${settings.tileSize}px` } : {};
-  const textStyle = isCustomSized ? { fontSize: `${settings.textSize}px`, lineHeight: 1.2 } : {};
+  // In a fixed grid the cell sets the size; contents scale with it via container query units
+  const isCellSized = isCustomSized && fillCell;
+  const tileStyle = isCellSized
+    ? { height: '100%', containerType: 'size' }
+    : isCustomSized ? { height: `${settings.tileSize}px` } : {};
+  const textStyle = isCustomSized
+    ? { fontSize: isCellSized ? `min(${settings.textSize}px, 16cqh, 14cqw)` : `${settings.textSize}px`, lineHeight: 1.2 }
+    : {};
   
-  const emojiStyle = isCustomSized ? { fontSize: `${settings.tileSize * 0.4}px`, lineHeight: 1 } : {}; 
-  const imageContainerStyle = isCustomSized ? { width: `${settings.tileSize * 0.55}px`, height: `${settings.tileSize * 0.55}px` } : {};
+  const emojiStyle = isCustomSized ? { fontSize: isCellSized ? 'min(40cqh, 55cqw)' : `${settings.tileSize * 0.4}px`, lineHeight: 1 } : {}; 
+  const imageSize = isCellSized ? 'min(55cqh, 70cqw)' : `${settings?.tileSize * 0.55}px`;
+  const imageContainerStyle = isCustomSized ? { width: imageSize, height: imageSize } : {};
   const navIconSize = isCustomSized ? Math.max(24, settings.tileSize * 0.3) : 32;
 
   // Grid Gap Wrapper Style
@@ -145,9 +141,10 @@ const Tile: React.FC<TileProps> = ({
     return (
       <div style={wrapperStyle} className="w-full h-full">
         <button
+          data-grid-item
+          data-touch-filter
           onClick={handleClick}
           onMouseEnter={handleMouseEnter}
-          onMouseLeave={handleMouseLeave}
           className={`flex flex-col items-center justify-center rounded-xl transition-all duration-200 active:scale-95 w-full group ${!isCustomSized ? 'h-32 md:h-40' : ''} 
             ${isHighContrast 
               ? 'bg-black border-4 border-white text-white hover:bg-slate-900' 
@@ -156,11 +153,6 @@ const Tile: React.FC<TileProps> = ({
           style={tileStyle}
           aria-label={data.label}
         >
-          {/* Dwell Overlay */}
-          {dwellProgress > 0 && (
-             <div className="absolute inset-0 bg-blue-500/20 z-0" style={{ height: `${dwellProgress}%`, bottom: 0, top: 'auto', width: '100%', transition: 'none' }} />
-          )}
-
           <div className={`p-3 rounded-full shadow-sm border transition-transform mb-2 z-10
             ${isHighContrast ? 'bg-black border-white text-white group-hover:scale-110' : 'bg-white border-slate-200 group-hover:scale-110'}
           `}>
@@ -178,32 +170,25 @@ const Tile: React.FC<TileProps> = ({
 
   const buttonContent = (
     <button
+      data-grid-item
+      data-touch-filter
       onClick={handleClick}
-      onMouseDown={handleMouseDown}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={(e) => { handleMouseLeave(); handleMouseUp(); }}
       onMouseEnter={handleMouseEnter}
-      className={`${baseClasses} ${sizeClasses} ${!isHighContrast ? data.color : ''} ${!isHighContrast ? 'hover:brightness-95' : 'hover:bg-slate-900'} w-full h-full`}
+      onPointerDown={handlePointerDown}
+      onPointerUp={cancelLongPress}
+      onPointerLeave={cancelLongPress}
+      onPointerCancel={cancelLongPress}
+      onContextMenu={handleContextMenu}
+      disabled={isDisabled}
+      className={`${baseClasses} ${sizeClasses} ${!isHighContrast ? data.color : ''} ${isDisabled ? '' : !isHighContrast ? 'hover:brightness-95' : 'hover:bg-slate-900'} w-full h-full`}
       style={variant === 'normal' ? tileStyle : undefined}
       aria-label={data.label}
     >
-      {/* Dwell / Hold Progress Overlay */}
-      {(dwellProgress > 0) && (
-        <svg className="absolute inset-0 w-full h-full pointer-events-none z-0 rotate-[-90deg]" viewBox="0 0 100 100" preserveAspectRatio="none">
-           <rect x="0" y="0" width="100" height="100" fill="none" />
-           <circle cx="50" cy="50" r="40" stroke="rgba(0,0,0,0.1)" strokeWidth="100" fill="none" />
-           <circle cx="50" cy="50" r="20" stroke={isHighContrast ? "yellow" : "#3b82f6"} strokeWidth="100" fill="none" 
-             strokeDasharray="300" 
-             strokeDashoffset={300 - (300 * dwellProgress) / 100}
-             style={{ transition: 'stroke-dashoffset 0ms linear' }}
-             opacity="0.3"
-           />
-        </svg>
-      )}
-      
-      {/* Hold Visual Feedback */}
-      {isPressing && (
-         <div className="absolute inset-0 bg-black/20 z-20 animate-pulse" />
+      {/* Folder Indicator */}
+      {data.linkTo && variant === 'normal' && (
+        <div className={`absolute bottom-2 right-2 z-10 opacity-60 ${isHighContrast ? 'text-yellow-400' : 'text-slate-600'}`}>
+          <Folder size={18} />
+        </div>
       )}
 
       <div className={contentClass} style={contentGap}>
@@ -241,8 +226,10 @@ const Tile: React.FC<TileProps> = ({
     <div style={wrapperStyle} className="w-full h-full relative group">
        {buttonContent}
        {/* Pin Button */}
-       {onTogglePin && !data.isNavigation && (
+       {onTogglePin && !data.isNavigation && !isDisabled && (
           <button 
+            data-scan-skip
+            data-dwell-free
             onClick={(e) => { e.stopPropagation(); onTogglePin(); }}
             className={`absolute top-2 right-2 p-1.5 rounded-full transition-all z-20 shadow-sm
               ${isPinned 
@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Save, Trash2, Upload, Image as ImageIcon } from 'lucide-react';
+import { TileData, Category, TileVisibility } from '../types';
+import { TILE_COLOR_OPTIONS, TILE_VISIBILITY_OPTIONS, VOCABULARY_LEVELS } from '../constants';
+import { generateTileImage } from '../services/gemini';
+import Tile from './Tile';
+
+interface TileEditorModalProps {
+  isOpen: boolean;
+  tile: TileData | null; // null when creating a new tile
+  defaultCategory: string;
+  boards: { id: string; label: string }[];
+  onClose: () => void;
+  onSave: (tile: TileData) => void;
+  onDelete: (tile: TileData) => void;
+}
+
+// Sentinel link value: create a new board named after the tile when saving
+export const NEW_BOARD_LINK = '__new_board__';
+
+const emptyDraft = (category: string): TileData => ({
+  id: '',
+  label: '',
+  emoji: '💬',
+  color: TILE_COLOR_OPTIONS[0].value,
+  category: category as Category,
+});
+
+const TileEditorModal: React.FC<TileEditorModalProps> = ({
+  isOpen,
+  tile,
+  defaultCategory,
+  boards,
+  onClose,
+  onSave,
+  onDelete
+}) => {
+  const [draft, setDraft] = useState<TileData>(emptyDraft(defaultCategory));
+  const [isGenerating, setIsGenerating] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Reset the form whenever the modal opens for a different tile
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(tile ? { ...tile } : emptyDraft(defaultCategory));
+    }
+  }, [isOpen, tile, defaultCategory]);
+
+  if (!isOpen) return null;
+
+  const update = <K extends keyof TileData>(key: K, value: TileData[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => update('imageUrl', reader.result as string);
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  const handleGenerateImage = async () => {
+    if (!draft.label.trim()) return;
+    setIsGenerating(true);
+    try {
+      const img = await generateTileImage(draft.label);
+      update('imageUrl', img);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to generate image. Please try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.label.trim()) return;
+    onSave({
+      ...draft,
+      label: draft.label.trim(),
+      textToSpeak: draft.textToSpeak?.trim() || undefined,
+      imageUrl: draft.imageUrl || undefined,
+    });
+  };
+
+  const inputClass = "w-full text-lg p-3 border-2 border-slate-200 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-500/10 outline-none transition-all";
+  const labelClass = "block text-sm font-semibold text-slate-600 mb-2";
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-full overflow-y-auto animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center p-4 border-b border-slate-100">
+          <h3 className="text-xl font-bold text-slate-800">{tile ? 'Edit Tile' : 'New Tile'}</h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-full transition-colors"
+          >
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 grid md:grid-cols-[1fr_180px] gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className={labelClass}>Label (what shows on the button)</label>
+              <input
+                autoFocus
+                type="text"
+                value={draft.label}
+                onChange={(e) => update('label', e.target.value)}
+                className={inputClass}
+                placeholder="e.g., Biscuit"
+              />
+            </div>
+
+            <div className="grid grid-cols-[100px_1fr] gap-3">
+              <div>
+                <label className={labelClass}>Emoji</label>
+                <input
+                  type="text"
+                  value={draft.emoji}
+                  onChange={(e) => update('emoji', e.target.value)}
+                  className={`${inputClass} text-center`}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Spoken Text (optional)</label>
+                <input
+                  type="text"
+                  value={draft.textToSpeak || ''}
+                  onChange={(e) => update('textToSpeak', e.target.value)}
+                  className={inputClass}
+                  placeholder="Defaults to the label"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Category</label>
+              <select
+                value={draft.category}
+                onChange={(e) => update('category', e.target.value as Category)}
+                className={inputClass}
+              >
+                {boards.map(board => <option key={board.id} value={board.id}>{board.label}</option>)}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>When tapped</label>
+              <select
+                value={draft.linkTo || ''}
+                onChange={(e) => update('linkTo', e.target.value || undefined)}
+                className={inputClass}
+              >
+                <option value="">Add to sentence</option>
+                <option value={NEW_BOARD_LINK}>Open a new folder</option>
+                {boards
+                  .filter(board => board.id !== draft.category)
+                  .map(board => <option key={board.id} value={board.id}>Open "{board.label}"</option>)}
+              </select>
+            </div>
+
+            <div>
+              <label className={labelClass}>Color</label>
+              <div className="flex flex-wrap gap-2">
+                {TILE_COLOR_OPTIONS.map(option => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => update('color', option.value)}
+                    className={`w-10 h-10 rounded-lg border-2 ${option.value} ${draft.color === option.value ? 'ring-4 ring-blue-500/40 scale-110' : ''} transition-all`}
+                    title={option.label}
+                    aria-label={option.label}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Picture (optional)</label>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex-1 py-2 px-3 rounded-xl font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors flex items-center justify-center gap-2"
+                >
+                  <Upload size={18} /> Upload
+                </button>
+                <button
+                  type="button"
+                  onClick={handleGenerateImage}
+                  disabled={!draft.label.trim() || isGenerating}
+                  className="flex-1 py-2 px-3 rounded-xl font-semibold text-purple-600 bg-purple-50 hover:bg-purple-100 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
+                >
+                  {isGenerating
+                    ? <div className="animate-spin w-5 h-5 border-2 border-purple-600 border-t-transparent rounded-full" />
+                    : <ImageIcon size={18} />}
+                  Gen Image
+                </button>
+                {draft.imageUrl && (
+                  <button
+                    type="button"
+                    onClick={() => update('imageUrl', undefined)}
+                    className="py-2 px-3 rounded-xl text-red-500 bg-red-50 hover:bg-red-100 transition-colors"
+                    title="Remove picture"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                )}
+              </div>
+              <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Visibility</label>
+                <select
+                  value={draft.visibility || 'visible'}
+                  onChange={(e) => update('visibility', e.target.value === 'visible' ? undefined : e.target.value as TileVisibility)}
+                  className={inputClass}
+                >
+                  {TILE_VISIBILITY_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Vocabulary Level</label>
+                <select
+                  value={draft.level || 0}
+                  onChange={(e) => update('level', Number(e.target.value) || undefined)}
+                  className={inputClass}
+                >
+                  <option value={0}>Always available</option>
+                  {VOCABULARY_LEVELS.map(option => <option key={option.level} value={option.level}>Level {option.level}: {option.label}</option>)}
+                </select>
+              </div>
+            </div>
+            <p className="text-xs text-slate-400 -mt-2">Hidden and greyed-out tiles keep their place, so nothing else on the board moves.</p>
+          </div>
+
+          {/* Live Preview */}
+          <div className="flex flex-col gap-2">
+            <span className={labelClass}>Preview</span>
+            <div className="h-40">
+              <Tile data={{ ...draft, label: draft.label || 'Label' }} onClick={() => {}} />
+            </div>
+          </div>
+
+          <div className="flex gap-3 md:col-span-2">
+            {tile && (
+              <button
+                type="button"
+                onClick={() => onDelete(tile)}
+                className="py-3 px-4 rounded-xl font-semibold text-red-600 bg-red-50 hover:bg-red-100 transition-colors flex items-center justify-center gap-2"
+              >
+                <Trash2 size={20} />
+                Delete
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 py-3 px-4 rounded-xl font-semibold text-slate-600 bg-slate-100 hover:bg-slate-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!draft.label.trim()}
+              className="flex-1 py-3 px-4 rounded-xl font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+            >
+              <Save size={20} />
+              Save Tile
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TileEditorModal;
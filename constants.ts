@@ -1,9 +1,20 @@
 
-import { Vocabulary, TileData, UserSettings } from './types';
+import { Vocabulary, TileData, UserSettings, ScanMethod, DwellIndicatorStyle, HotkeyAction, TileVisibility } from './types';
 
-export const CATEGORIES = ['General', 'Needs', 'Feelings', 'People', 'Actions', 'Keyboard', 'Saved'] as const;
+export const CATEGORIES = ['General', 'Needs', 'Feelings', 'People', 'Actions', 'Keyboard', 'Scene', 'Saved'] as const;
 export const STORAGE_KEY = 'voicebridge_saved_phrases';
 export const PINNED_STORAGE_KEY = 'voicebridge_pinned_tiles';
+export const SETTINGS_STORAGE_KEY = 'voicebridge_user_settings';
+export const VOCABULARY_STORAGE_KEY = 'voicebridge_vocabulary_overlay';
+export const HISTORY_STORAGE_KEY = 'voicebridge_utterance_history';
+export const PROFILES_STORAGE_KEY = 'voicebridge_profiles';
+
+// Per-profile data lives under namespaced keys; the default profile keeps the original keys
+export const DEFAULT_PROFILE_ID = 'default';
+export const PROFILE_SCOPED_KEYS = [STORAGE_KEY, PINNED_STORAGE_KEY, SETTINGS_STORAGE_KEY, VOCABULARY_STORAGE_KEY, HISTORY_STORAGE_KEY];
+export const profileStorageKey = (key: string, profileId: string = DEFAULT_PROFILE_ID) => {
+  return profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+};
 
 export const VOICE_OPTIONS = [
   { id: 'Puck', label: 'Puck', description: 'Neutral & Clear' },
@@ -13,27 +24,114 @@ export const VOICE_OPTIONS = [
   { id: 'Zephyr', label: 'Zephyr', description: 'Calm & Balanced' },
 ] as const;
 
+// Engines offered in Settings. Web Speech uses the voices installed on the device and works offline.
+export const SPEECH_ENGINE_OPTIONS = [
+  { id: 'gemini', label: 'Gemini', description: 'Natural voices, needs internet' },
+  { id: 'webspeech', label: 'Device', description: 'Built-in voices, works offline' },
+] as const;
+
+// Actions that can be bound to a key on the Hotkeys screen
+export const HOTKEY_ACTIONS: { id: HotkeyAction; label: string; description: string }[] = [
+  { id: 'speak', label: 'Speak', description: 'Say the sentence' },
+  { id: 'clear', label: 'Clear', description: 'Empty the sentence' },
+  { id: 'backspace', label: 'Backspace', description: 'Remove the last word' },
+  { id: 'alarm', label: 'Alarm', description: 'Sound the attention alert' },
+  { id: 'nextCategory', label: 'Next Category', description: 'Move down the category list' },
+  { id: 'previousCategory', label: 'Previous Category', description: 'Move up the category list' },
+];
+
+// Switch scanning patterns
+export const SCAN_METHOD_OPTIONS: { id: ScanMethod; label: string; description: string }[] = [
+  { id: 'linear', label: 'Linear', description: 'One button at a time' },
+  { id: 'row-column', label: 'Row / Column', description: 'Pick a row, then a button' },
+  { id: 'group', label: 'Group', description: 'Pick an area, then a row, then a button' },
+];
+
+// How dwell progress is drawn on the button being looked at
+export const DWELL_INDICATOR_OPTIONS: { id: DwellIndicatorStyle; label: string; description: string }[] = [
+  { id: 'ring', label: 'Ring', description: 'A circle fills in the middle' },
+  { id: 'fill', label: 'Fill', description: 'The button fills from the bottom' },
+  { id: 'bar', label: 'Bar', description: 'A bar grows along the bottom' },
+];
+
+// Visibility choices in the tile editor
+export const TILE_VISIBILITY_OPTIONS: { id: TileVisibility; label: string }[] = [
+  { id: 'visible', label: 'Visible' },
+  { id: 'disabled', label: 'Greyed Out' },
+  { id: 'hidden', label: 'Hidden' },
+];
+
+// Vocabulary levels for introducing words gradually. 0 shows everything.
+export const VOCABULARY_LEVELS: { level: number; label: string; description: string }[] = [
+  { level: 1, label: 'First Words', description: 'A few powerful core words' },
+  { level: 2, label: 'Core', description: 'Everyday core words and feelings' },
+  { level: 3, label: 'Extended', description: 'All built-in words' },
+];
+
+// Color presets offered by the board editor (background + border)
+export const TILE_COLOR_OPTIONS = [
+  { id: 'white', label: 'White', value: 'bg-white border-slate-300' },
+  { id: 'slate', label: 'Grey', value: 'bg-slate-100 border-slate-300' },
+  { id: 'red', label: 'Red', value: 'bg-red-100 border-red-300' },
+  { id: 'orange', label: 'Orange', value: 'bg-orange-100 border-orange-300' },
+  { id: 'amber', label: 'Amber', value: 'bg-amber-100 border-amber-300' },
+  { id: 'yellow', label: 'Yellow', value: 'bg-yellow-100 border-yellow-300' },
+  { id: 'green', label: 'Green', value: 'bg-green-100 border-green-300' },
+  { id: 'teal', label: 'Teal', value: 'bg-teal-100 border-teal-300' },
+  { id: 'blue', label: 'Blue', value: 'bg-blue-100 border-blue-300' },
+  { id: 'indigo', label: 'Indigo', value: 'bg-indigo-100 border-indigo-300' },
+  { id: 'purple', label: 'Purple', value: 'bg-purple-100 border-purple-300' },
+  { id: 'pink', label: 'Pink', value: 'bg-pink-100 border-pink-300' },
+] as const;
+
 export const DEFAULT_SETTINGS: UserSettings = {
   tileSize: 160,
   textSize: 20,
   voiceName: 'Fenrir',
+  speechEngine: 'gemini',
+  fallbackSpeechEngine: 'webspeech',
+  webSpeechVoice: '',
   sidebarPosition: 'left',
+  vocabularyLevel: 0,
+  lockedTiles: 'hidden',
+  hotkeys: {
+    speak: 'Alt+Enter',
+    clear: 'Alt+Delete',
+    backspace: 'Alt+Backspace',
+    alarm: 'Alt+KeyA',
+    nextCategory: 'Alt+ArrowDown',
+    previousCategory: 'Alt+ArrowUp'
+  },
   accessibility: {
     mode: 'standard',
     dwellTime: 1000,
+    dwellCooldown: 500,
+    dwellIndicator: 'ring',
     highContrast: false,
     speakOnHover: false,
     gridGap: 0,
-    clickHoldTime: 0
+    clickHoldTime: 0,
+    touchRepeatDelay: 0,
+    touchSelectOn: 'release',
+    touchDragTarget: 'last',
+    touchIgnoreMultiFinger: false,
+    selectionFeedback: 'silent',
+    feedbackVoiceName: '',
+    feedbackVolume: 0.6,
+    scanMethod: 'row-column',
+    scanInput: 'auto',
+    scanRate: 1500,
+    scanLoops: 3,
+    scanAudioCues: false
   }
 };
 
 const baseTiles: TileData[] = [
   // --- General Category (Folders Only) ---
-  { id: 'folder_connectors', label: 'Words', emoji: '📝', color: 'bg-slate-200 border-slate-400', category: 'General' },
-  { id: 'folder_responses', label: 'Responses', emoji: '💬', color: 'bg-blue-100 border-blue-300', category: 'General' },
-  { id: 'folder_greetings', label: 'Greetings', emoji: '🤝', color: 'bg-yellow-100 border-yellow-300', category: 'General' },
-  { id: 'folder_phrases', label: 'Phrases', emoji: '🗣️', color: 'bg-teal-100 border-teal-300', category: 'General' },
+  { id: 'folder_connectors', label: 'Words', emoji: '📝', color: 'bg-slate-200 border-slate-400', category: 'General', linkTo: 'Connectors' },
+  { id: 'folder_responses', label: 'Responses', emoji: '💬', color: 'bg-blue-100 border-blue-300', category: 'General', linkTo: 'Responses' },
+  { id: 'folder_greetings', label: 'Greetings', emoji: '🤝', color: 'bg-yellow-100 border-yellow-300', category: 'General', linkTo: 'Greetings' },
+  { id: 'folder_phrases', label: 'Phrases', emoji: '🗣️', color: 'bg-teal-100 border-teal-300', category: 'General', linkTo: 'Phrases' },
   
   // --- Responses Category ---
   { id: 'back_general', label: 'Go Back', emoji: '🔙', color: 'bg-slate-200 border-slate-300', category: 'Responses', isNavigation: true },
@@ -273,10 +371,29 @@ const baseTiles: TileData[] = [
   { id: 'phr_30', label: 'I love you.', emoji: '❤️', color: 'bg-teal-50 border-teal-200', category: 'Phrases' },
 ];
 
+// Built-in words unlocked at the first two levels; every other word arrives at level 3.
+// Folders and Back tiles are always available so every board stays reachable.
+const LEVEL_1_TILES = [
+  'yes', 'no', 'please', 'hello', 'goodbye', 'want_c', 'more_c', 'not_c', 'i', 'you', 'it',
+  'water', 'food', 'toilet', 'help', 'pain', 'happy', 'sad', 'go', 'stop', 'eat', 'drink', 'play', 'mom', 'dad',
+];
+const LEVEL_2_TILES = [
+  'thanks', 'maybe', 'ok', 'idk', 'need_c', 'like_c', 'can_c', 'do_c', 'my', 'that', 'is', 'am', 'to', 'and',
+  'hot', 'cold', 'break', 'rest', 'tired', 'angry', 'scared', 'sick', 'hungry', 'thirsty', 'love',
+  'look', 'listen', 'sleep', 'wait', 'give', 'take', 'open', 'close', 'me', 'friend', 'teacher', 'family',
+];
+
+const builtInLevel = (tile: TileData): number | undefined => {
+  if (tile.linkTo || tile.isNavigation) return undefined;
+  if (LEVEL_1_TILES.includes(tile.id)) return 1;
+  if (LEVEL_2_TILES.includes(tile.id)) return 2;
+  return 3;
+};
+
 export const VOCABULARY: Vocabulary = baseTiles.reduce((acc, tile) => {
   if (!acc[tile.category]) {
     acc[tile.category] = [];
   }
-  acc[tile.category].push(tile);
+  acc[tile.category].push({ ...tile, level: builtInLevel(tile) });
   return acc;
 }, {} as Vocabulary);
@@ -0,0 +1,204 @@
+import { useEffect } from 'react';
+import { DwellIndicatorStyle } from '../types';
+
+export interface DwellOptions {
+  enabled: boolean;
+  dwellTime: number; // ms the pointer has to rest on a button
+  cooldown: number; // ms after a dwell click before the next dwell can start
+  indicator: DwellIndicatorStyle;
+  highContrast?: boolean;
+}
+
+// --- Targets ---
+//
+// Dwell works on the rendered page rather than per component, so every button
+// (tiles, keyboard keys, sentence actions, dialogs) gets it. Anything inside a
+// `data-dwell-free` element is never dwell-clicked, giving the user places to
+// rest the pointer and keeping easily-hit extras like the pin button out of reach.
+
+const ACTIONABLE_SELECTOR = 'button, a[href], [role="button"], input[type="checkbox"], input[type="radio"], summary';
+
+const findDwellTarget = (x: number, y: number): HTMLElement | null => {
+  const el = document.elementFromPoint(x, y)?.closest<HTMLElement>(ACTIONABLE_SELECTOR);
+  if (!el || (el as HTMLButtonElement).disabled || el.getAttribute('aria-disabled') === 'true') return null;
+  return el.closest('[data-dwell-free]') ? null : el;
+};
+
+// --- Progress Indicator ---
+
+const RING_CIRCUMFERENCE = 2 * Math.PI * 16;
+
+/**
+ * A fixed-position layer drawn over the dwelled button. It is updated directly
+ * every animation frame so dwelling doesn't re-render the app.
+ */
+const createIndicator = (style: DwellIndicatorStyle, highContrast: boolean) => {
+  const color = highContrast ? '#facc15' : '#3b82f6';
+  const root = document.createElement('div');
+  root.setAttribute('aria-hidden', 'true');
+  Object.assign(root.style, { position: 'fixed', pointerEvents: 'none', zIndex: '100', overflow: 'hidden', display: 'none' });
+
+  if (style === 'ring') {
+    root.innerHTML = `
+      <svg viewBox="0 0 40 40" style="position:absolute;left:50%;top:50%;transform:translate(-50%,-50%) rotate(-90deg)">
+        <circle cx="20" cy="20" r="16" fill="none" stroke="rgba(0,0,0,0.15)" stroke-width="5" />
+        <circle cx="20" cy="20" r="16" fill="none" stroke="${color}" stroke-width="5" stroke-linecap="round"
+          stroke-dasharray="${RING_CIRCUMFERENCE}" stroke-dashoffset="${RING_CIRCUMFERENCE}" />
+      </svg>`;
+  } else {
+    const bar = document.createElement('div');
+    Object.assign(bar.style, style === 'fill'
+      ? { position: 'absolute', left: '0', right: '0', bottom: '0', height: '0%', background: color, opacity: '0.3' }
+      : { position: 'absolute', left: '0', bottom: '0', width: '0%', height: '6px', background: color });
+    root.appendChild(bar);
+  }
+
+  const svg = root.querySelector('svg');
+  const arc = root.querySelectorAll('circle')[1];
+  const bar = root.firstElementChild as HTMLElement;
+
+  return {
+    element: root,
+    show: (target: HTMLElement, progress: number) => {
+      const rect = target.getBoundingClientRect();
+      Object.assign(root.style, {
+        display: 'block',
+        left: `${rect.left}px`,
+        top: `${rect.top}px`,
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+        borderRadius: getComputedStyle(target).borderRadius,
+      });
+      if (svg && arc) {
+        const size = Math.min(72, Math.max(24, Math.min(rect.width, rect.height) * 0.5));
+        svg.setAttribute('width', String(size));
+        svg.setAttribute('height', String(size));
+        arc.setAttribute('stroke-dashoffset', String(RING_CIRCUMFERENCE * (1 - progress)));
+      } else if (style === 'fill') {
+        bar.style.height = `${progress * 100}%`;
+      } else {
+        bar.style.width = `${progress * 100}%`;
+      }
+    },
+    hide: () => { root.style.display = 'none'; },
+  };
+};
+
+// --- Hook ---
+
+/**
+ * Dwell selection for head pointers, eye trackers, pens and touch: resting the
+ * pointer on a button for `dwellTime` clicks it. After a dwell click nothing new
+ * starts for `cooldown` ms, and the same button won't fire again until the
+ * pointer has left it.
+ */
+export const useDwellSelection = ({ enabled, dwellTime, cooldown, indicator, highContrast = false }: DwellOptions) => {
+  useEffect(() => {
+    if (!enabled) return;
+    const overlay = createIndicator(indicator, highContrast);
+    document.body.appendChild(overlay.element);
+
+    let target: HTMLElement | null = null;
+    let startTime = 0;
+    let frame: number | null = null;
+    let lastActivated: HTMLElement | null = null;
+    let cooldownUntil = 0;
+    let isPressed = false;
+    let suppressClickOn: HTMLElement | null = null;
+    let lastPoint: { x: number; y: number } | null = null;
+
+    const reset = () => {
+      if (frame) cancelAnimationFrame(frame);
+      frame = null;
+      target = null;
+      overlay.hide();
+    };
+
+    const tick = () => {
+      if (!target || !target.isConnected) {
+        reset();
+        return;
+      }
+      // Progress stays at 0 until any cooldown has passed
+      const progress = Math.max(0, Math.min((performance.now() - startTime) / dwellTime, 1));
+      if (progress > 0) overlay.show(target, progress);
+      if (progress < 1) {
+        frame = requestAnimationFrame(tick);
+        return;
+      }
+      const el = target;
+      reset();
+      lastActivated = el;
+      cooldownUntil = performance.now() + cooldown;
+      // A finger or pen still pressing will produce its own click on release
+      if (isPressed) suppressClickOn = el;
+      el.click();
+    };
+
+    const track = (x: number, y: number) => {
+      lastPoint = { x, y };
+      const next = findDwellTarget(x, y);
+      if (next !== lastActivated) lastActivated = null;
+      if (next === target) return;
+      reset();
+      if (!next || next === lastActivated) return;
+      target = next;
+      startTime = Math.max(performance.now(), cooldownUntil);
+      frame = requestAnimationFrame(tick);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => track(e.clientX, e.clientY);
+    const handlePointerDown = (e: PointerEvent) => {
+      isPressed = true;
+      suppressClickOn = null;
+      track(e.clientX, e.clientY);
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      isPressed = false;
+      // Touch and pens stop pointing once lifted; a mouse keeps hovering
+      if (e.pointerType !== 'mouse') {
+        reset();
+        lastPoint = null;
+      }
+    };
+    const handlePointerOut = (e: PointerEvent) => {
+      // Left the window
+      if (!e.relatedTarget) {
+        reset();
+        lastPoint = null;
+      }
+    };
+    // Content scrolling under a still pointer changes what it rests on
+    const handleScroll = () => {
+      if (lastPoint) track(lastPoint.x, lastPoint.y);
+    };
+    const handleClick = (e: MouseEvent) => {
+      if (!e.isTrusted || !suppressClickOn) return;
+      if (suppressClickOn.contains(e.target as Node)) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+      suppressClickOn = null;
+    };
+
+    document.addEventListener('pointermove', handlePointerMove);
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('pointerup', handlePointerUp);
+    document.addEventListener('pointercancel', handlePointerUp);
+    document.addEventListener('pointerout', handlePointerOut);
+    document.addEventListener('scroll', handleScroll, true);
+    document.addEventListener('click', handleClick, true);
+
+    return () => {
+      reset();
+      overlay.element.remove();
+      document.removeEventListener('pointermove', handlePointerMove);
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('pointerup', handlePointerUp);
+      document.removeEventListener('pointercancel', handlePointerUp);
+      document.removeEventListener('pointerout', handlePointerOut);
+      document.removeEventListener('scroll', handleScroll, true);
+      document.removeEventListener('click', handleClick, true);
+    };
+  }, [enabled, dwellTime, cooldown, indicator, highContrast]);
+};
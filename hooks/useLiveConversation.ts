@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TranscriptEntry, TranscriptSpeaker } from '../types';
+import { createLiveConversation, LiveConversation, LiveConnectionState } from '../services/liveConversation';
+
+export interface ConversationModeOptions {
+  enabled: boolean;
+  voiceName: string;
+}
+
+export interface ConversationModeState {
+  connection: LiveConnectionState;
+  transcript: TranscriptEntry[]; // Both sides, oldest first; kept across reconnects until cleared
+  isPartnerTalking: boolean;
+  isSpeaking: boolean; // The user's sentence is playing
+  isMuted: boolean;
+  say: (text: string) => Promise<void>;
+  interrupt: () => void;
+  toggleMute: () => void;
+  retry: () => void;
+  sendVideoFrame: (jpeg: string) => void;
+  clearTranscript: () => void;
+}
+
+const MAX_TRANSCRIPT_ENTRIES = 500;
+
+// Updates the speaker's turn that is still being transcribed, or starts a new one
+const addToTranscript = (entries: TranscriptEntry[], speaker: TranscriptSpeaker, text: string, isFinal: boolean): TranscriptEntry[] => {
+  let openIndex = -1;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].speaker === speaker && !entries[i].isFinal) {
+      openIndex = i;
+      break;
+    }
+  }
+  if (openIndex !== -1) {
+    return entries.map((entry, i) => i === openIndex ? { ...entry, text, isFinal } : entry);
+  }
+  const entry: TranscriptEntry = { id: `${speaker}-${Date.now()}-${entries.length}`, speaker, text, timestamp: Date.now(), isFinal };
+  return [...entries, entry].slice(-MAX_TRANSCRIPT_ENTRIES);
+};
+
+/**
+ * Runs a partner conversation while `enabled` is on, reconnecting when the
+ * voice changes. Sentences passed to `say` are spoken in the user's voice.
+ */
+export const useLiveConversation = ({ enabled, voiceName }: ConversationModeOptions): ConversationModeState => {
+  const [connection, setConnection] = useState<LiveConnectionState>({ status: 'idle', attempt: 0 });
+  const [isMuted, setIsMuted] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const conversationRef = useRef<LiveConversation | null>(null);
+  // Muting is applied to the open session directly (below) rather than by
+  // reconnecting, so a new session reads the current value through a ref
+  const isMutedRef = useRef(isMuted);
+  isMutedRef.current = isMuted;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const conversation = createLiveConversation({
+      voiceName,
+      onStateChange: setConnection,
+      onTranscript: (speaker, text, isFinal) => {
+        setTranscript(prev => addToTranscript(prev, speaker, text, isFinal));
+      },
+      onSpeakingChange: setIsSpeaking,
+    });
+    conversationRef.current = conversation;
+    conversation.setMuted(isMutedRef.current);
+    conversation.start();
+    return () => {
+      conversation.stop();
+      conversationRef.current = null;
+      setConnection({ status: 'idle', attempt: 0 });
+      setIsSpeaking(false);
+      // A turn cut off by disconnecting is still part of the record
+      setTranscript(prev => prev.map(entry => entry.isFinal ? entry : { ...entry, isFinal: true }));
+    };
+  }, [enabled, voiceName]);
+
+  // Stable, so the camera loop can keep it without restarting; it always goes to the current session
+  const sendVideoFrame = useCallback((jpeg: string) => conversationRef.current?.sendVideoFrame(jpeg), []);
+
+  return {
+    connection,
+    transcript,
+    isPartnerTalking: transcript.some(entry => entry.speaker === 'partner' && !entry.isFinal),
+    isSpeaking,
+    isMuted,
+    say: (text) => conversationRef.current?.say(text) ?? Promise.reject(new Error('The conversation is not connected.')),
+    interrupt: () => conversationRef.current?.interrupt(),
+    toggleMute: () => {
+      conversationRef.current?.setMuted(!isMuted);
+      setIsMuted(!isMuted);
+    },
+    retry: () => conversationRef.current?.retry(),
+    sendVideoFrame,
+    clearTranscript: () => setTranscript([]),
+  };
+};
@@ -0,0 +1,196 @@
+import { useEffect } from 'react';
+
+export interface TouchAccessOptions {
+  enabled: boolean;
+  holdTime: number; // ms a button must be held before it counts
+  repeatDelay: number; // ms after a selection during which further selections are ignored
+  selectOn: 'press' | 'release';
+  dragTarget: 'first' | 'last';
+  ignoreMultiFinger: boolean;
+}
+
+// --- Targets ---
+//
+// The profile applies to buttons inside `data-touch-filter` (tiles, the keyboard
+// and the sentence strip). Their ordinary pointer clicks are held back and the
+// hook clicks the chosen button itself once the profile's rules are met, so each
+// component keeps a plain onClick. Keyboard and switch activation is untouched.
+
+const FILTERED_BUTTON = 'button';
+
+const findFilteredButton = (el: Element | null): HTMLElement | null => {
+  const button = el?.closest<HTMLElement>(FILTERED_BUTTON);
+  if (!button || (button as HTMLButtonElement).disabled || !button.closest('[data-touch-filter]')) return null;
+  return button;
+};
+
+// Vertical swipes starting on a tile still scroll the board (the browser then cancels
+// the touch); sideways slides across a row are left to the hook
+const TOUCH_ACTION_CSS = `[data-touch-filter] button, button[data-touch-filter] { touch-action: pan-y; }`;
+
+// A finger that moves within this long of touching down is swiping to scroll. After it,
+// the touch is a deliberate hold or slide and scrolling is held back until it ends.
+const SCROLL_GRACE_MS = 150;
+
+/**
+ * Whether the profile differs from an ordinary tap. When it doesn't, the hook
+ * stays out of the way entirely.
+ */
+export const isTouchProfileActive = (options: Omit<TouchAccessOptions, 'enabled'>) => (
+  options.holdTime > 0
+  || options.repeatDelay > 0
+  || options.selectOn === 'press'
+  || options.dragTarget === 'first'
+  || options.ignoreMultiFinger
+);
+
+interface Gesture {
+  pointerId: number;
+  first: HTMLElement | null; // Button the touch started on
+  current: HTMLElement | null; // Button currently under the finger
+  startedAt: number;
+  enteredAt: number; // When the finger reached `current`
+  done: boolean; // Selected or cancelled; ignore the rest of this touch
+}
+
+/**
+ * Tremor-tolerant selection for touch, pen and mouse: optional hold-to-select,
+ * a guard against repeated touches, selecting on press or on release, choosing
+ * the first or last button in a drag, and ignoring multi-finger contact.
+ */
+export const useTouchAccess = ({ enabled, holdTime, repeatDelay, selectOn, dragTarget, ignoreMultiFinger }: TouchAccessOptions) => {
+  useEffect(() => {
+    if (!enabled || !isTouchProfileActive({ holdTime, repeatDelay, selectOn, dragTarget, ignoreMultiFinger })) return;
+
+    const style = document.createElement('style');
+    style.textContent = TOUCH_ACTION_CSS;
+    document.head.appendChild(style);
+
+    const contacts = new Set<number>();
+    let gesture: Gesture | null = null;
+    let holdTimer: ReturnType<typeof setTimeout> | null = null;
+    let pressed: HTMLElement | null = null;
+    let lastSelectedAt = -Infinity;
+
+    // Dim the button being held, like a physical key going down
+    const showPressed = (el: HTMLElement | null) => {
+      if (pressed) pressed.style.filter = '';
+      pressed = el;
+      if (pressed) pressed.style.filter = 'brightness(0.8)';
+    };
+
+    const clearHold = () => {
+      if (holdTimer) clearTimeout(holdTimer);
+      holdTimer = null;
+    };
+
+    const endGesture = () => {
+      clearHold();
+      showPressed(null);
+      if (gesture) gesture.done = true;
+    };
+
+    const select = (el: HTMLElement) => {
+      endGesture();
+      const now = performance.now();
+      if (now - lastSelectedAt < repeatDelay || !el.isConnected) return;
+      lastSelectedAt = now;
+      el.click();
+    };
+
+    // Press mode: select once the button under the finger has been held long enough
+    const armPress = (el: HTMLElement | null) => {
+      clearHold();
+      if (!el) return;
+      if (holdTime === 0) {
+        select(el);
+        return;
+      }
+      holdTimer = setTimeout(() => select(el), holdTime);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0) return;
+      // The first finger down starts afresh, in case a lift was never reported
+      if (e.isPrimary) contacts.clear();
+      contacts.add(e.pointerId);
+      if (contacts.size > 1) {
+        // A second finger: either drop the whole touch or just ignore the extra finger
+        if (ignoreMultiFinger) endGesture();
+        return;
+      }
+      const target = findFilteredButton(e.target as Element);
+      if (!target) {
+        gesture = null;
+        return;
+      }
+      const now = performance.now();
+      gesture = { pointerId: e.pointerId, first: target, current: target, startedAt: now, enteredAt: now, done: false };
+      showPressed(target);
+      if (selectOn === 'press') armPress(target);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!gesture || gesture.done || e.pointerId !== gesture.pointerId) return;
+      // Touch pointers stay captured by the first element, so look up what's under the finger
+      const next = findFilteredButton(document.elementFromPoint(e.clientX, e.clientY));
+      if (next === gesture.current) return;
+      gesture.current = next;
+      gesture.enteredAt = performance.now();
+      if (dragTarget === 'last') {
+        showPressed(next);
+        if (selectOn === 'press') armPress(next);
+      }
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      contacts.delete(e.pointerId);
+      if (!gesture || e.pointerId !== gesture.pointerId) return;
+      const { first, current, startedAt, enteredAt, done } = gesture;
+      endGesture();
+      gesture = null;
+      if (done || selectOn !== 'release') return;
+      const target = dragTarget === 'first' ? first : current;
+      const heldFor = performance.now() - (dragTarget === 'first' ? startedAt : enteredAt);
+      if (target && heldFor >= holdTime) select(target);
+    };
+
+    // Only cancelable before the browser has started scrolling, so a swipe is never interrupted
+    const handleTouchMove = (e: TouchEvent) => {
+      if (!gesture || gesture.done || !e.cancelable) return;
+      if (performance.now() - gesture.startedAt >= SCROLL_GRACE_MS) e.preventDefault();
+    };
+
+    const handlePointerCancel = (e: PointerEvent) => {
+      contacts.delete(e.pointerId);
+      if (gesture?.pointerId !== e.pointerId) return;
+      endGesture();
+      gesture = null;
+    };
+
+    // Hold back the browser's own pointer clicks; keyboard clicks have detail 0
+    const handleClick = (e: MouseEvent) => {
+      if (!e.isTrusted || e.detail === 0 || !findFilteredButton(e.target as Element)) return;
+      e.preventDefault();
+      e.stopPropagation();
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown, true);
+    document.addEventListener('pointermove', handlePointerMove, true);
+    document.addEventListener('pointerup', handlePointerUp, true);
+    document.addEventListener('pointercancel', handlePointerCancel, true);
+    document.addEventListener('touchmove', handleTouchMove, { capture: true, passive: false });
+    document.addEventListener('click', handleClick, true);
+
+    return () => {
+      endGesture();
+      style.remove();
+      document.removeEventListener('pointerdown', handlePointerDown, true);
+      document.removeEventListener('pointermove', handlePointerMove, true);
+      document.removeEventListener('pointerup', handlePointerUp, true);
+      document.removeEventListener('pointercancel', handlePointerCancel, true);
+      document.removeEventListener('touchmove', handleTouchMove, true);
+      document.removeEventListener('click', handleClick, true);
+    };
+  }, [enabled, holdTime, repeatDelay, selectOn, dragTarget, ignoreMultiFinger]);
+};
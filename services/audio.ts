@@ -0,0 +1,178 @@
+// --- PCM Audio Helpers ---
+//
+// Gemini speaks and listens in raw 16-bit mono PCM: 24 kHz for speech it
+// produces and 16 kHz for audio sent to it. These helpers are shared by
+// text-to-speech playback, the audio cache and live conversations.
+
+export const OUTPUT_SAMPLE_RATE = 24000;
+export const INPUT_SAMPLE_RATE = 16000;
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000; // Avoid call stack limits on long recordings
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Wraps raw 16-bit PCM in an AudioBuffer for playback. A trailing odd byte is ignored.
+ */
+export const pcm16ToAudioBuffer = (
+  data: Uint8Array,
+  ctx: BaseAudioContext,
+  sampleRate: number = OUTPUT_SAMPLE_RATE,
+  numChannels = 1
+): AudioBuffer => {
+  // Int16Array needs an even length and a 2-byte aligned offset, so copy when either is off
+  const byteLength = data.byteLength - (data.byteLength % 2);
+  const samples = data.byteOffset % 2 === 0
+    ? new Int16Array(data.buffer, data.byteOffset, byteLength / 2)
+    : new Int16Array(data.slice(0, byteLength).buffer);
+  const frameCount = Math.floor(samples.length / numChannels);
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = samples[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+};
+
+/**
+ * Base64 payload for Gemini's realtime input.
+ */
+export const createPcmBlob = (pcm: Int16Array, sampleRate: number = INPUT_SAMPLE_RATE): { data: string; mimeType: string } => ({
+  data: bytesToBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)),
+  mimeType: `audio/pcm;rate=${sampleRate}`,
+});
+
+export const createAudioContext = (options?: AudioContextOptions): AudioContext => (
+  new (window.AudioContext || (window as any).webkitAudioContext)(options)
+);
+
+// --- Microphone Capture ---
+//
+// Capture runs in an AudioWorklet at the device's own sample rate (browsers
+// can't always open a microphone at 16 kHz). The worklet averages each window of
+// input samples down to the target rate, which also filters out most aliasing,
+// and posts fixed-size chunks of 16-bit PCM back to the main thread.
+
+const CAPTURE_PROCESSOR = 'voicebridge-pcm-capture';
+const CHUNK_MS = 100;
+
+const CAPTURE_WORKLET = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSize } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.chunkSize = chunkSize;
+    this.chunk = new Int16Array(chunkSize);
+    this.length = 0;
+    this.phase = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.lastValue = 0;
+  }
+
+  push(value) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.chunk[this.length++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.length === this.chunkSize) {
+      this.port.postMessage(this.chunk, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunkSize);
+      this.length = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      this.sum += input[i];
+      this.count++;
+      this.phase += 1;
+      while (this.phase >= this.ratio) {
+        this.lastValue = this.count > 0 ? this.sum / this.count : this.lastValue;
+        this.push(this.lastValue);
+        this.sum = 0;
+        this.count = 0;
+        this.phase -= this.ratio;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
+
+export interface MicrophoneCapture {
+  setMuted: (muted: boolean) => void;
+  stop: () => void;
+}
+
+/**
+ * Opens the microphone and streams it as 16 kHz 16-bit PCM chunks (~100 ms each).
+ * Rejects if permission is denied or AudioWorklet isn't supported.
+ */
+export const startMicrophoneCapture = async (
+  onChunk: (pcm: Int16Array) => void,
+  targetRate: number = INPUT_SAMPLE_RATE
+): Promise<MicrophoneCapture> => {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+  });
+  const ctx = createAudioContext();
+  let muted = false;
+
+  try {
+    const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const source = ctx.createMediaStreamSource(stream);
+    const node = new AudioWorkletNode(ctx, CAPTURE_PROCESSOR, {
+      processorOptions: { targetRate, chunkSize: Math.round(targetRate * CHUNK_MS / 1000) },
+    });
+    node.port.onmessage = (event: MessageEvent<Int16Array>) => {
+      if (!muted) onChunk(event.data);
+    };
+    source.connect(node);
+    // The processor writes nothing to its output; connecting it keeps it running
+    node.connect(ctx.destination);
+
+    return {
+      setMuted: (value) => {
+        muted = value;
+        stream.getAudioTracks().forEach(track => { track.enabled = !value; });
+      },
+      stop: () => {
+        node.port.onmessage = null;
+        source.disconnect();
+        node.disconnect();
+        stream.getTracks().forEach(track => track.stop());
+        ctx.close().catch(() => {});
+      },
+    };
+  } catch (e) {
+    stream.getTracks().forEach(track => track.stop());
+    ctx.close().catch(() => {});
+    throw e;
+  }
+};
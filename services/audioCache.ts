@@ -0,0 +1,122 @@
+import { openDatabase, promisify, transactionDone, AUDIO_STORE, AUDIO_META_STORE } from './storage';
+
+// --- Persistent Speech Cache ---
+//
+// Generated speech is stored as the raw 16-bit PCM returned by the TTS model so the
+// Offline Mode download survives reloads. Entries are keyed by voice + normalized
+// text; the PCM itself lives apart from a small metadata record so sizes can be
+// reported without reading any audio.
+
+interface AudioMeta {
+  voice: string;
+  bytes: number;
+  createdAt: number;
+}
+
+export interface VoiceCacheSummary {
+  voice: string;
+  phrases: number;
+  bytes: number;
+}
+
+/**
+ * Normalizes text so equivalent requests share a cache entry and the TTS model
+ * gets well-formed input. All-caps words (e.g. "HORSE") become sentence case,
+ * which also avoids Gemini 500 errors caused by all-caps input.
+ */
+export const normalizeSpeechText = (text: string): string => {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  if (trimmed.length > 1 && trimmed === trimmed.toUpperCase() && /[A-Z]/.test(trimmed)) {
+    return trimmed.charAt(0).toUpperCase() + trimmed.slice(1).toLowerCase();
+  }
+  return trimmed;
+};
+
+export const audioCacheKey = (voiceName: string, normalizedText: string) => `${voiceName}:${normalizedText}`;
+
+/**
+ * Reads cached PCM for a key, or null if it isn't stored (or storage is unavailable).
+ */
+export const getCachedPcm = async (key: string): Promise<Uint8Array | null> => {
+  try {
+    const db = await openDatabase();
+    const buffer = await promisify<ArrayBuffer | undefined>(db.transaction(AUDIO_STORE, 'readonly').objectStore(AUDIO_STORE).get(key));
+    return buffer ? new Uint8Array(buffer) : null;
+  } catch (e) {
+    console.error("Failed to read cached audio", e);
+    return null;
+  }
+};
+
+/**
+ * Stores PCM for a key. Failures (e.g. a full disk) are logged and otherwise
+ * ignored: the audio is still playable from memory this session.
+ */
+export const putCachedPcm = async (key: string, voiceName: string, pcm: Uint8Array): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([AUDIO_STORE, AUDIO_META_STORE], 'readwrite');
+    // Copy into a standalone buffer; `pcm` may be a view over a larger one
+    tx.objectStore(AUDIO_STORE).put(pcm.slice().buffer, key);
+    const meta: AudioMeta = { voice: voiceName, bytes: pcm.byteLength, createdAt: Date.now() };
+    tx.objectStore(AUDIO_META_STORE).put(meta, key);
+    await transactionDone(tx);
+  } catch (e) {
+    console.error("Failed to persist audio", e);
+  }
+};
+
+/**
+ * Lists the keys cached for a voice, used to skip work when preloading.
+ */
+export const getCachedKeysForVoice = async (voiceName: string): Promise<Set<string>> => {
+  try {
+    const db = await openDatabase();
+    const index = db.transaction(AUDIO_META_STORE, 'readonly').objectStore(AUDIO_META_STORE).index('voice');
+    const keys = await promisify<IDBValidKey[]>(index.getAllKeys(voiceName));
+    return new Set(keys.map(String));
+  } catch (e) {
+    console.error("Failed to list cached audio", e);
+    return new Set();
+  }
+};
+
+// --- Size Reporting & Eviction ---
+
+/**
+ * Summarises the cache per voice, largest first.
+ */
+export const getAudioCacheSummary = async (): Promise<VoiceCacheSummary[]> => {
+  try {
+    const db = await openDatabase();
+    const metas = await promisify<AudioMeta[]>(db.transaction(AUDIO_META_STORE, 'readonly').objectStore(AUDIO_META_STORE).getAll());
+    const byVoice = new Map<string, VoiceCacheSummary>();
+    metas.forEach(meta => {
+      const summary = byVoice.get(meta.voice) || { voice: meta.voice, phrases: 0, bytes: 0 };
+      summary.phrases++;
+      summary.bytes += meta.bytes;
+      byVoice.set(meta.voice, summary);
+    });
+    return Array.from(byVoice.values()).sort((a, b) => b.bytes - a.bytes);
+  } catch (e) {
+    console.error("Failed to summarise audio cache", e);
+    return [];
+  }
+};
+
+/**
+ * Removes every cached phrase for one voice. Returns the keys that were removed.
+ */
+export const clearVoiceCache = async (voiceName: string): Promise<string[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([AUDIO_STORE, AUDIO_META_STORE], 'readwrite');
+  const metaStore = tx.objectStore(AUDIO_META_STORE);
+  const keys = (await promisify<IDBValidKey[]>(metaStore.index('voice').getAllKeys(voiceName))).map(String);
+  const audioStore = tx.objectStore(AUDIO_STORE);
+  keys.forEach(key => {
+    audioStore.delete(key);
+    metaStore.delete(key);
+  });
+  await transactionDone(tx);
+  return keys;
+};
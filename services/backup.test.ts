@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProfileData } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { EMPTY_OVERLAY } from './vocabulary';
+import { BACKUP_VERSION, ProfileBackup, restoreBackup } from './backup';
+
+const profile = (data: Partial<ProfileData>): ProfileData => ({
+  settings: DEFAULT_SETTINGS, savedTiles: [], pinnedTiles: [], vocabulary: EMPTY_OVERLAY, history: [], ...data,
+});
+
+const backupOf = (data: ProfileData): ProfileBackup => ({ format: 'voicebridge-backup', version: BACKUP_VERSION, createdAt: '2026-01-01T00:00:00.000Z', data });
+
+test('a merged restore keeps fixed grids for both profiles, preferring the current one', () => {
+  const current = profile({
+    vocabulary: { ...EMPTY_OVERLAY, layouts: { General: { rows: 3, columns: 3, positions: {} } } },
+  });
+  const backup = backupOf(profile({
+    vocabulary: {
+      ...EMPTY_OVERLAY,
+      layouts: {
+        General: { rows: 2, columns: 2, positions: {} },
+        Needs: { rows: 4, columns: 5, positions: { water: { row: 1, column: 2 } } },
+      },
+    },
+  }));
+
+  const { layouts } = restoreBackup(backup, current, 'merge').vocabulary;
+  assert.deepEqual(layouts.General, { rows: 3, columns: 3, positions: {} });
+  assert.deepEqual(layouts.Needs, backup.data.vocabulary.layouts.Needs);
+});
+
+test('a merged restore keeps current settings and puts the backup sentences first', () => {
+  const current = profile({ settings: { ...DEFAULT_SETTINGS, tileSize: 200 }, history: ['new'] });
+  const restored = restoreBackup(backupOf(profile({ history: ['old'] })), current, 'merge');
+  assert.equal(restored.settings.tileSize, 200);
+  assert.deepEqual(restored.history, ['old', 'new']);
+});
@@ -0,0 +1,141 @@
+import { ProfileData, TileData, VocabularyOverlay } from '../types';
+import { migrateSettings } from './settings';
+import { sanitizeOverlay } from './vocabulary';
+import { sanitizeHistory } from './prediction';
+
+// --- Backup File Format ---
+
+const BACKUP_FORMAT = 'voicebridge-backup';
+export const BACKUP_VERSION = 1;
+
+export interface ProfileBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO timestamp
+  data: ProfileData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupSummary {
+  createdAt: string;
+  phrases: number;
+  newPhrases: number; // Phrases not already on this device
+  pins: number;
+  newPins: number;
+  customTiles: number;
+  boards: number;
+  sentences: number; // Spoken sentences used for word prediction
+}
+
+/**
+ * Serialises the full profile to a single JSON file.
+ */
+export const createBackup = (data: ProfileData): Blob => {
+  const backup: ProfileBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+  return new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+};
+
+// --- Validation ---
+
+const isTileData = (value: any): value is TileData => {
+  return !!value && typeof value === 'object'
+    && typeof value.id === 'string'
+    && typeof value.label === 'string'
+    && typeof value.category === 'string';
+};
+
+const sanitizeTiles = (value: unknown): TileData[] => {
+  return Array.isArray(value) ? value.filter(isTileData) : [];
+};
+
+/**
+ * Reads and validates a backup file. Throws with a user-facing message when the
+ * file isn't a VoiceBridge backup or was made by a newer version of the app.
+ */
+export const parseBackup = async (file: File): Promise<ProfileBackup> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error("This file is not a valid backup (unreadable JSON).");
+  }
+
+  if (!raw || raw.format !== BACKUP_FORMAT || typeof raw.version !== 'number' || !raw.data) {
+    throw new Error("This file is not a VoiceBridge backup.");
+  }
+  if (raw.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of VoiceBridge. Please update the app.");
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    createdAt: typeof raw.createdAt === 'string' ? raw.createdAt : '',
+    data: {
+      settings: migrateSettings(raw.data.settings),
+      savedTiles: sanitizeTiles(raw.data.savedTiles),
+      pinnedTiles: sanitizeTiles(raw.data.pinnedTiles),
+      vocabulary: sanitizeOverlay(raw.data.vocabulary),
+      history: sanitizeHistory(raw.data.history), // Missing from backups made before it was included
+    },
+  };
+};
+
+// --- Restore ---
+
+export const summarizeBackup = (backup: ProfileBackup, current: ProfileData): BackupSummary => {
+  const savedIds = new Set(current.savedTiles.map(t => t.id));
+  const pinnedIds = new Set(current.pinnedTiles.map(t => t.id));
+  return {
+    createdAt: backup.createdAt,
+    phrases: backup.data.savedTiles.length,
+    newPhrases: backup.data.savedTiles.filter(t => !savedIds.has(t.id)).length,
+    pins: backup.data.pinnedTiles.length,
+    newPins: backup.data.pinnedTiles.filter(t => !pinnedIds.has(t.id)).length,
+    customTiles: Object.keys(backup.data.vocabulary.tiles).length,
+    boards: backup.data.vocabulary.boards.length,
+    sentences: backup.data.history.length,
+  };
+};
+
+// Keeps every current tile and appends incoming tiles whose ids are new
+const mergeTiles = (current: TileData[], incoming: TileData[]): TileData[] => {
+  const ids = new Set(current.map(t => t.id));
+  return [...current, ...incoming.filter(t => !ids.has(t.id))];
+};
+
+const mergeOverlays = (current: VocabularyOverlay, incoming: VocabularyOverlay): VocabularyOverlay => {
+  const boardIds = new Set(current.boards.map(b => b.id));
+  return {
+    ...current,
+    boards: [...current.boards, ...incoming.boards.filter(b => !boardIds.has(b.id))],
+    tiles: { ...current.tiles, ...incoming.tiles },
+    deletedIds: Array.from(new Set([...current.deletedIds, ...incoming.deletedIds])),
+    order: { ...current.order, ...incoming.order },
+    // A board keeps this profile's grid if it has one
+    layouts: { ...incoming.layouts, ...current.layouts },
+  };
+};
+
+/**
+ * Produces the profile that results from restoring a backup.
+ * `replace` swaps everything for the backup; `merge` adds the backup's phrases,
+ * pins, board customisations and spoken sentences while keeping the current settings.
+ */
+export const restoreBackup = (backup: ProfileBackup, current: ProfileData, mode: RestoreMode): ProfileData => {
+  if (mode === 'replace') return backup.data;
+  return {
+    settings: current.settings,
+    savedTiles: mergeTiles(current.savedTiles, backup.data.savedTiles),
+    pinnedTiles: mergeTiles(current.pinnedTiles, backup.data.pinnedTiles),
+    vocabulary: mergeOverlays(current.vocabulary, backup.data.vocabulary),
+    // The backup's sentences count as older than this device's
+    history: sanitizeHistory([...backup.data.history, ...current.history]),
+  };
+};
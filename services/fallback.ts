@@ -0,0 +1,45 @@
+import { FeatureProvider, ResultSource } from '../types';
+
+// --- AI With Local Fallback ---
+//
+// Each AI feature pairs a Gemini provider with a local one. The Gemini provider
+// is used when it can be; otherwise the local one answers, and the reason is
+// passed on so the UI can explain it.
+
+export interface FallbackOutcome<T> {
+  value: T;
+  source: Exclude<ResultSource, 'none'>;
+  error?: string; // Why the primary provider wasn't used, if it was tried
+}
+
+export const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Why a provider can't be used right now, e.g. "Smart Fix AI is not set up."
+const unavailableMessage = (feature: string) => (
+  navigator.onLine ? `${feature} AI is not set up.` : "You're offline."
+);
+
+/**
+ * Runs `runPrimary` when `primary` is available, otherwise (or if it fails)
+ * `runFallback`. `feature` names the feature in logs and messages.
+ */
+export const withFallback = async <T>(
+  feature: string,
+  primary: FeatureProvider,
+  runPrimary: () => Promise<T>,
+  fallback: FeatureProvider,
+  runFallback: () => T | Promise<T>
+): Promise<FallbackOutcome<T>> => {
+  let error: string | undefined;
+  if (primary.isAvailable()) {
+    try {
+      return { value: await runPrimary(), source: primary.source };
+    } catch (e) {
+      console.error(`${feature} failed`, e);
+      error = errorMessage(e);
+    }
+  } else {
+    error = unavailableMessage(feature);
+  }
+  return { value: await runFallback(), source: fallback.source, error };
+};
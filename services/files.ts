@@ -0,0 +1,50 @@
+// --- File Helpers (download / data URLs) ---
+
+/**
+ * Triggers a browser download for the given blob.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Splits a base64 data URL into its MIME type and raw bytes.
+ * Returns null for anything that isn't a base64 data URL.
+ */
+export const dataUrlToBytes = (dataUrl: string): { mimeType: string; bytes: Uint8Array } | null => {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match || !match[2]) return null;
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { mimeType: match[1] || 'application/octet-stream', bytes };
+};
+
+/**
+ * Encodes raw bytes as a base64 data URL.
+ */
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  const CHUNK = 0x8000; // Avoid call stack limits on large images
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+/**
+ * Builds a date-stamped filename, e.g. "voicebridge-2024-05-01.obz".
+ */
+export const datedFilename = (prefix: string, extension: string): string => {
+  return `${prefix}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+};
@@ -1,6 +1,9 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import { TileData, Vocabulary } from '../types';
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { TileData, Vocabulary, SpeechEngine, SentenceRefiner, ReplySuggester, SceneAnalyzer, SceneItem, SceneItemKind } from '../types';
+import { VOICE_OPTIONS } from '../constants';
+import { normalizeSpeechText, audioCacheKey, getCachedPcm, putCachedPcm, getCachedKeysForVoice, clearVoiceCache } from './audioCache';
+import { base64ToBytes, pcm16ToAudioBuffer, createAudioContext, OUTPUT_SAMPLE_RATE } from './audio';
 
 const apiKey = process.env.API_KEY;
 if (!apiKey) {
@@ -11,10 +14,15 @@ const ai = new GoogleGenAI({ apiKey: apiKey || 'dummy-key-for-build' });
 
 // --- Audio Caching & Context Management ---
 
-// Cache for generated audio buffers to allow instant playback of repeated phrases
+// In-memory cache of decoded buffers for instant playback of repeated phrases.
+// Backed by the persistent PCM cache in audioCache.ts, which is loaded lazily on first use.
 // Key format: "VoiceName:TextContent"
 const audioCache = new Map<string, AudioBuffer>();
 let audioContext: AudioContext | null = null;
+// The source currently playing, and a counter bumped on cancel so audio still
+// being generated when Stop is pressed never starts playing
+let activeSource: AudioBufferSourceNode | null = null;
+let playbackGeneration = 0;
 
 // Helper for delay
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
@@ -22,7 +30,7 @@ const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 // Initialize or get the shared AudioContext
 const getAudioContext = () => {
   if (!audioContext) {
-    audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    audioContext = createAudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
   }
   // Ensure context is running (it can be suspended by browsers if created without user interaction)
   if (audioContext.state === 'suspended') {
@@ -41,19 +49,19 @@ const getAudioContext = () => {
 export const generateAudio = async (text: string, voiceName: string): Promise<AudioBuffer> => {
   const ctx = getAudioContext();
   
-  // Normalize text: Convert all-caps (e.g. "HORSE") to Sentence case (e.g. "Horse").
-  // This prevents Gemini 500 Internal Errors often caused by all-caps inputs.
-  let textToSpeak = text;
-  if (text && text.length > 1 && text === text.toUpperCase() && /[A-Z]/.test(text)) {
-    textToSpeak = text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
-  }
-
-  const cacheKey = `${voiceName}:${textToSpeak}`;
+  const textToSpeak = normalizeSpeechText(text);
+  const cacheKey = audioCacheKey(voiceName, textToSpeak);
 
-  // 1. Return cached if available
+  // 1. Return cached if available (memory first, then the persistent cache)
   if (audioCache.has(cacheKey)) {
     return audioCache.get(cacheKey)!;
   }
+  const storedPcm = await getCachedPcm(cacheKey);
+  if (storedPcm) {
+    const audioBuffer = pcm16ToAudioBuffer(storedPcm, ctx);
+    audioCache.set(cacheKey, audioBuffer);
+    return audioBuffer;
+  }
 
   const MAX_RETRIES = 3;
   let lastError: any;
@@ -91,15 +99,12 @@ export const generateAudio = async (text: string, voiceName: string): Promise<Au
       }
 
       // 3. Decode
-      const audioBuffer = await decodeAudioData(
-        decode(base64Audio),
-        ctx,
-        24000,
-        1
-      );
+      const pcm = base64ToBytes(base64Audio);
+      const audioBuffer = pcm16ToAudioBuffer(pcm, ctx);
       
-      // 4. Cache
+      // 4. Cache (in memory now, persisted in the background)
       audioCache.set(cacheKey, audioBuffer);
+      putCachedPcm(cacheKey, voiceName, pcm);
       return audioBuffer;
 
     } catch (error) {
@@ -130,30 +135,47 @@ export const generateAudio = async (text: string, voiceName: string): Promise<Au
 };
 
 /**
- * Plays the provided AudioBuffer.
+ * Plays the provided AudioBuffer, resolving when it ends (or is stopped).
  */
-const playAudioBuffer = (buffer: AudioBuffer) => {
+const playAudioBuffer = (buffer: AudioBuffer, volume = 1): Promise<void> => new Promise(resolve => {
   const ctx = getAudioContext();
   const source = ctx.createBufferSource();
   source.buffer = buffer;
-  source.connect(ctx.destination);
+  const gain = ctx.createGain();
+  gain.gain.value = volume;
+  source.connect(gain);
+  gain.connect(ctx.destination);
+  source.onended = () => {
+    if (activeSource === source) activeSource = null;
+    resolve();
+  };
+  activeSource = source;
   source.start();
-};
+});
 
 /**
- * High-level function to Speak text. 
- * Handles generation (or cache retrieval) and playback.
+ * Gemini TTS as a SpeechEngine. Generated audio is cached, so phrases downloaded
+ * for Offline Mode still play without a connection.
  */
-export const speakText = async (text: string, voiceName: string = 'Fenrir'): Promise<void> => {
-  try {
-    const audioBuffer = await generateAudio(text, voiceName);
-    playAudioBuffer(audioBuffer);
-  } catch (error) {
-    console.error("TTS Playback Error:", error);
-    // Fallback to browser TTS if Gemini fails completely
-    const utterance = new SpeechSynthesisUtterance(text);
-    window.speechSynthesis.speak(utterance);
-  }
+export const geminiSpeechEngine: SpeechEngine = {
+  id: 'gemini',
+  label: 'Gemini',
+  isAvailable: () => !!apiKey,
+  listVoices: async () => VOICE_OPTIONS.map(v => ({ id: v.id, label: v.label, description: v.description })),
+  generate: async (text, voiceId) => {
+    await generateAudio(text, voiceId);
+  },
+  speak: async (text, voiceId, options) => {
+    const generation = playbackGeneration;
+    const audioBuffer = await generateAudio(text, voiceId);
+    if (generation !== playbackGeneration) return; // Cancelled while generating
+    await playAudioBuffer(audioBuffer, options?.volume);
+  },
+  cancel: () => {
+    playbackGeneration++;
+    activeSource?.stop();
+    activeSource = null;
+  },
 };
 
 /**
@@ -200,7 +222,7 @@ export const preloadAudioAssets = async (
   Object.values(vocabulary).forEach(categoryTiles => {
     categoryTiles.forEach(tile => {
       // Ignore folders or special tiles that might not have speech
-      if (tile.id.startsWith('folder_')) return;
+      if (tile.linkTo || tile.isNavigation) return;
       uniqueTexts.add(tile.textToSpeak || tile.label);
     });
   });
@@ -209,15 +231,12 @@ export const preloadAudioAssets = async (
   const total = textsToProcess.length;
   let completed = 0;
 
-  // 2. Filter out already cached items to report instant progress
+  // 2. Filter out already cached items (in memory or persisted) to report instant progress
+  const persistedKeys = await getCachedKeysForVoice(voiceName);
   const queue = textsToProcess.filter(text => {
     // We need to check against the normalized cache key
-    let normalized = text;
-    if (text && text.length > 1 && text === text.toUpperCase() && /[A-Z]/.test(text)) {
-      normalized = text.charAt(0).toUpperCase() + text.slice(1).toLowerCase();
-    }
-    const key = `${voiceName}:${normalized}`;
-    if (audioCache.has(key)) {
+    const key = audioCacheKey(voiceName, normalizeSpeechText(text));
+    if (audioCache.has(key) || persistedKeys.has(key)) {
       completed++;
       return false;
     }
@@ -252,6 +271,19 @@ export const preloadAudioAssets = async (
 };
 
 
+/**
+ * Forgets all generated speech for a voice, both in memory and on disk.
+ */
+export const clearVoiceAudio = async (voiceName: string): Promise<void> => {
+  const keys = await clearVoiceCache(voiceName);
+  keys.forEach(key => audioCache.delete(key));
+  // Entries only decoded this session may not have been persisted yet
+  Array.from(audioCache.keys())
+    .filter(key => key.startsWith(`${voiceName}:`))
+    .forEach(key => audioCache.delete(key));
+};
+
+
 // --- Content Generation & Analysis ---
 
 export const generateTileImage = async (prompt: string, size: '1K' | '2K' | '4K' = '1K'): Promise<string> => {
@@ -306,89 +338,114 @@ export const generateTileImage = async (prompt: string, size: '1K' | '2K' | '4K'
   }
 };
 
-export const refineSentence = async (words: string): Promise<string> => {
-  try {
+/**
+ * Smart Fix with Gemini: turns tile keywords into up to three natural phrasings.
+ */
+export const geminiRefiner: SentenceRefiner = {
+  source: 'ai',
+  isAvailable: () => Boolean(apiKey) && navigator.onLine,
+  refine: async (words) => {
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash-lite',
       contents: {
-        parts: [{ text: `You are an assistive communication aide. Convert the following sequence of keywords into a grammatically correct, natural-sounding English sentence. Do not add unnecessary information, just fix the grammar. \n\nKeywords: "${words}"` }],
+        parts: [{ text: `You are an assistive communication aide. Convert the following sequence of keywords into grammatically correct, natural-sounding English sentences. Do not add unnecessary information, just fix the grammar. Give up to three alternative phrasings, best first.\n\nKeywords: "${words}"` }],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
       },
     });
-    return response.text || words;
-  } catch (error) {
-    console.error("Refine Text Error:", error);
-    return words; // Fallback to original
-  }
+    const parsed = JSON.parse(response.text || '[]');
+    const candidates = Array.isArray(parsed) ? parsed.filter((c): c is string => typeof c === 'string' && c.trim() !== '') : [];
+    if (candidates.length === 0) throw new Error("No phrasing returned");
+    return candidates.map(c => c.trim()).slice(0, 3);
+  },
 };
 
-// --- Live API Helpers ---
+/**
+ * Reply suggestions with Gemini: short answers to the partner's last utterance,
+ * preferring words the user already has on their boards.
+ */
+export const geminiReplySuggester: ReplySuggester = {
+  source: 'ai',
+  isAvailable: () => Boolean(apiKey) && navigator.onLine,
+  suggest: async (utterance, words) => {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-lite',
+      contents: {
+        parts: [{ text: `You are an assistive communication aide for someone who uses an AAC device. Their conversation partner just said: "${utterance}"
 
-// Helper to decode base64 to byte array
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
+Suggest between three and six short, natural replies (one to four words each) that the AAC user might want to say, covering different answers (for example yes, no, each option offered, or neither). Prefer these words from their vocabulary where they fit: ${words.join(', ')}` }],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+    });
+    const parsed = JSON.parse(response.text || '[]');
+    const replies = Array.isArray(parsed) ? parsed.filter((r): r is string => typeof r === 'string' && r.trim() !== '') : [];
+    if (replies.length === 0) throw new Error("No replies returned");
+    return replies.map(r => r.trim());
+  },
+};
 
-// Helper to decode raw PCM to AudioBuffer
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
+const SCENE_ITEM_KINDS: SceneItemKind[] = ['object', 'person', 'action'];
 
-// Helper to encode Uint8Array to base64
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
-}
+// Gemini boxes are [ymin, xmin, ymax, xmax] scaled to 0–1000
+const toSceneBox = (box: unknown): SceneItem['box'] => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === 'number' && isFinite(n))) return undefined;
+  const [ymin, xmin, ymax, xmax] = box.map(n => Math.min(1000, Math.max(0, n)) / 1000);
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
 
-// Helper to create PCM blob
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = Math.max(-1, Math.min(1, data[i])) * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
-}
+/**
+ * Scene tiles with Gemini: the objects, people and actions in a camera frame,
+ * each with a short label, an emoji and where it is in the picture.
+ */
+export const geminiSceneAnalyzer: SceneAnalyzer = {
+  source: 'ai',
+  isAvailable: () => Boolean(apiKey) && navigator.onLine,
+  analyze: async (image) => {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: {
+        parts: [
+          { inlineData: { data: image.data, mimeType: image.mimeType } },
+          { text: `You help someone who uses an AAC device talk about what is in front of them. List up to 12 things in this photo they might want to talk about: the main objects, any people (described, not identified), and actions that are happening or that they could do with the objects. Most important first. For each, give a label of one or two simple words, a single emoji, its kind (object, person or action) and, for objects and people, a bounding box as [ymin, xmin, ymax, xmax] scaled to 0-1000.` },
+        ],
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              label: { type: Type.STRING },
+              emoji: { type: Type.STRING },
+              kind: { type: Type.STRING, enum: SCENE_ITEM_KINDS },
+              box: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+            },
+            required: ['label', 'emoji', 'kind'],
+          },
+        },
+      },
+    });
+    const parsed = JSON.parse(response.text || '[]');
+    const items: SceneItem[] = (Array.isArray(parsed) ? parsed : [])
+      .filter((item: any) => item && typeof item.label === 'string' && item.label.trim() !== '')
+      .map((item: any) => ({
+        label: item.label.trim(),
+        emoji: typeof item.emoji === 'string' && item.emoji ? item.emoji : '🔹',
+        kind: SCENE_ITEM_KINDS.includes(item.kind) ? item.kind : 'object',
+        box: toSceneBox(item.box),
+      }));
+    if (items.length === 0) throw new Error("Nothing recognised in the picture");
+    return items;
+  },
+};
 
-// Helper to convert Blob to Base64
-export function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64data = reader.result as string;
-      // Remove data URL scheme prefix (e.g., "data:image/jpeg;base64,")
-      resolve(base64data.split(',')[1]);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-}
+// --- Live API ---
 
 export const getGeminiClient = () => ai;
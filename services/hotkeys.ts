@@ -0,0 +1,79 @@
+import { HotkeyAction, HotkeyBindings } from '../types';
+
+// --- Key Combos ---
+//
+// Bindings are stored as "Mod+Mod+Code" strings built from KeyboardEvent.code, so
+// they don't depend on keyboard layout and work with switch interfaces that emit
+// unusual keys (F13, MediaPlayPause, ...). Events without a code fall back to `key`.
+
+const MODIFIER_KEYS = ['Control', 'Alt', 'Shift', 'Meta'];
+
+/**
+ * The combo for a key press, e.g. "Alt+KeyS", or null for a lone modifier.
+ */
+export const keyComboFromEvent = (e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  if (e.metaKey) parts.push('Meta');
+  parts.push(e.code || (e.key === ' ' ? 'Space' : e.key));
+  return parts.join('+');
+};
+
+/**
+ * Human-readable form of a combo: "Alt+KeyS" → "Alt + S".
+ */
+export const formatKeyCombo = (combo: string): string => {
+  if (!combo) return 'Not set';
+  return combo.split('+').map(part => part
+    .replace(/^Key([A-Z])$/, '$1')
+    .replace(/^Digit(\d)$/, '$1')
+    .replace(/^Arrow/, '')
+  ).join(' + ');
+};
+
+// Single keys that should keep working normally while typing
+const isTypingSafe = (combo: string) => /(^|\+)(Ctrl|Alt|Meta)\+/.test(combo) || /^F\d{1,2}$/.test(combo);
+
+/**
+ * True for text fields and other elements that take ordinary key presses.
+ */
+export const isEditable = (target: EventTarget | null) => (
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+);
+
+/**
+ * The action bound to a key press, if any. While typing in a text field only
+ * bindings with Ctrl/Alt/Meta or function keys apply, so ordinary typing is never hijacked.
+ */
+export const matchHotkey = (e: KeyboardEvent, bindings: HotkeyBindings): HotkeyAction | null => {
+  const combo = keyComboFromEvent(e);
+  if (!combo) return null;
+  const action = (Object.keys(bindings) as HotkeyAction[]).find(a => bindings[a] === combo);
+  if (!action) return null;
+  if (isEditable(e.target) && !isTypingSafe(combo)) return null;
+  return action;
+};
+
+/**
+ * Listens for hotkeys on the window and runs the matching handler. Only actions
+ * present in `handlers` are claimed, so several components can each handle their own.
+ * Returns an unsubscribe function.
+ */
+export const onHotkey = (
+  bindings: HotkeyBindings,
+  handlers: Partial<Record<HotkeyAction, () => void>>
+): (() => void) => {
+  const listener = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.repeat) return;
+    const action = matchHotkey(e, bindings);
+    const handler = action ? handlers[action] : undefined;
+    if (!handler) return;
+    e.preventDefault();
+    handler();
+  };
+  window.addEventListener('keydown', listener);
+  return () => window.removeEventListener('keydown', listener);
+};
@@ -0,0 +1,356 @@
+import { LiveServerMessage, Modality } from '@google/genai';
+import { TranscriptEntry, TranscriptSpeaker } from '../types';
+import { getGeminiClient } from './gemini';
+import { base64ToBytes, pcm16ToAudioBuffer, createPcmBlob, createAudioContext, startMicrophoneCapture, MicrophoneCapture, OUTPUT_SAMPLE_RATE } from './audio';
+
+// --- Partner Conversation ---
+//
+// A live session used as the AAC user's voice in a face-to-face conversation.
+// The partner's speech is picked up by the microphone and transcribed; the model
+// only speaks when the user sends a sentence, and then says exactly that, in the
+// user's chosen voice. It never answers the partner by itself. Both sides are
+// transcribed so the conversation can be followed (and kept) as captions.
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+const SYSTEM_INSTRUCTION = `
+  You are the voice of a person who uses an AAC device and cannot speak aloud.
+  You will hear the people they are talking with, and may see their camera, but never reply to them yourself.
+  When you receive a written message, say it aloud exactly as written, in the first person,
+  as if you were the person who wrote it. Do not add, explain, answer or change anything.
+`;
+
+const speakRequest = (text: string) => `Say exactly: ${text}`;
+
+// --- Connection State ---
+//
+// idle → connecting → connected. A dropped or failed connection moves to
+// 'reconnecting' and tries again after an exponential backoff; after too many
+// attempts in a row it gives up ('failed') until retried by hand. 'closed' is final.
+
+export type LiveConversationStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'closed';
+
+const TRANSITIONS: Record<LiveConversationStatus, LiveConversationStatus[]> = {
+  idle: ['connecting', 'closed'],
+  connecting: ['connected', 'reconnecting', 'failed', 'closed'],
+  connected: ['reconnecting', 'closed'],
+  reconnecting: ['connecting', 'closed'],
+  failed: ['connecting', 'closed'],
+  closed: [],
+};
+
+export const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+/**
+ * Wait before reconnect attempt `attempt` (1-based): 1s, 2s, 4s … capped at 30s.
+ */
+export const reconnectDelay = (attempt: number) => Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (attempt - 1));
+
+export interface LiveConnectionState {
+  status: LiveConversationStatus;
+  attempt: number; // Reconnect attempts since the last successful connection
+  retryAt?: number; // When the next attempt starts (ms since epoch), while reconnecting
+  error?: string; // Why the connection dropped, or a microphone problem
+}
+
+export interface LiveConversationOptions {
+  voiceName: string;
+  onStateChange: (state: LiveConnectionState) => void;
+  // Called as either side talks; `text` is the whole turn so far
+  onTranscript: (speaker: TranscriptSpeaker, text: string, isFinal: boolean) => void;
+  onSpeakingChange: (isSpeaking: boolean) => void;
+}
+
+export interface LiveConversation {
+  start: () => void;
+  stop: () => void;
+  // Connects again straight away, e.g. after giving up
+  retry: () => void;
+  // Speaks the user's sentence; resolves once it has finished playing (or was interrupted)
+  say: (text: string) => Promise<void>;
+  interrupt: () => void;
+  setMuted: (muted: boolean) => void;
+  // Shares a camera frame (base64 JPEG) with the session; dropped while not connected
+  sendVideoFrame: (jpeg: string) => void;
+}
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error && error.message ? error.message : fallback);
+
+/**
+ * Connects a partner conversation. Audio the model produces is only played
+ * while one of the user's sentences is being spoken, so anything it says on its
+ * own in reply to the partner is dropped.
+ */
+export const createLiveConversation = (options: LiveConversationOptions): LiveConversation => {
+  let state: LiveConnectionState = { status: 'idle', attempt: 0 };
+  // Each connection attempt gets its own token so callbacks from an old session are ignored
+  let activeToken: object | null = null;
+  let session: Promise<any> | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let mic: MicrophoneCapture | null = null;
+  let isStartingMic = false;
+  let muted = false;
+  let outputContext: AudioContext | null = null;
+
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  let partnerText = '';
+  // The sentence being spoken; `spoken` collects what the voice actually said
+  let pendingSay: { text: string; spoken: string; resolve: () => void; turnComplete: boolean } | null = null;
+
+  const transition = (status: LiveConversationStatus, changes: Partial<LiveConnectionState> = {}) => {
+    if (!TRANSITIONS[state.status].includes(status)) {
+      console.warn(`Ignored live conversation transition ${state.status} → ${status}`);
+      return false;
+    }
+    state = { status, attempt: state.attempt, error: state.error, ...changes };
+    options.onStateChange(state);
+    return true;
+  };
+
+  const endSay = () => {
+    if (!pendingSay) return;
+    options.onTranscript('user', pendingSay.spoken.trim() || pendingSay.text, true);
+    pendingSay.resolve();
+    pendingSay = null;
+  };
+
+  const finishSay = () => {
+    if (sources.size === 0) endSay();
+  };
+
+  const stopPlayback = () => {
+    sources.forEach(source => source.stop());
+    sources.clear();
+    nextStartTime = 0;
+    options.onSpeakingChange(false);
+  };
+
+  const sendAudio = (pcm: Int16Array) => {
+    if (state.status !== 'connected' || muted) return;
+    session?.then(s => s.sendRealtimeInput({ media: createPcmBlob(pcm) })).catch(() => {});
+  };
+
+  const sendVideoFrame = (jpeg: string) => {
+    if (state.status !== 'connected') return;
+    session?.then(s => s.sendRealtimeInput({ media: { data: jpeg, mimeType: 'image/jpeg' } })).catch(() => {});
+  };
+
+  // The microphone stays open across reconnects so permission is only asked once
+  const ensureMic = async () => {
+    if (mic || isStartingMic) return;
+    isStartingMic = true;
+    try {
+      const capture = await startMicrophoneCapture(sendAudio);
+      if (state.status === 'closed') {
+        capture.stop();
+        return;
+      }
+      mic = capture;
+      mic.setMuted(muted);
+    } catch (e) {
+      console.error("Mic Error", e);
+      state = { ...state, error: 'Could not access the microphone.' };
+      options.onStateChange(state);
+    } finally {
+      isStartingMic = false;
+    }
+  };
+
+  const playAudio = (base64Audio: string) => {
+    const ctx = outputContext;
+    if (!ctx) return;
+    nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+    const source = ctx.createBufferSource();
+    source.buffer = pcm16ToAudioBuffer(base64ToBytes(base64Audio), ctx);
+    source.connect(ctx.destination);
+    source.addEventListener('ended', () => {
+      sources.delete(source);
+      if (sources.size > 0) return;
+      options.onSpeakingChange(false);
+      if (pendingSay?.turnComplete) finishSay();
+    });
+    if (sources.size === 0) options.onSpeakingChange(true);
+    source.start(nextStartTime);
+    nextStartTime += source.buffer.duration;
+    sources.add(source);
+  };
+
+  const handleMessage = (message: LiveServerMessage) => {
+    const content = message.serverContent;
+    if (!content) return;
+
+    const heard = content.inputTranscription;
+    if (heard?.text) {
+      partnerText += heard.text;
+      options.onTranscript('partner', partnerText.trim(), !!heard.finished);
+      if (heard.finished) partnerText = '';
+    }
+
+    // Only the user's own sentences are captioned; anything else the model says is never played
+    const said = content.outputTranscription;
+    if (said?.text && pendingSay) pendingSay.spoken += said.text;
+
+    const base64Audio = content.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio && pendingSay) playAudio(base64Audio);
+
+    if (content.interrupted) {
+      stopPlayback();
+      finishSay();
+    }
+    if (content.turnComplete) {
+      // The partner's turn has ended too, even if the transcript never said so
+      if (partnerText) options.onTranscript('partner', partnerText.trim(), true);
+      partnerText = '';
+      if (pendingSay) {
+        pendingSay.turnComplete = true;
+        finishSay();
+      }
+    }
+  };
+
+  const closeSession = () => {
+    const current = session;
+    activeToken = null;
+    session = null;
+    current?.then(s => s.close()).catch(() => {});
+  };
+
+  // Called when the active session closes or errors: back off and try again, or give up
+  const handleDrop = (error: string) => {
+    closeSession();
+    stopPlayback();
+    endSay();
+    if (partnerText) options.onTranscript('partner', partnerText.trim(), true);
+    partnerText = '';
+
+    const attempt = state.attempt + 1;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      transition('failed', { error, retryAt: undefined });
+      return;
+    }
+    const delay = reconnectDelay(attempt);
+    if (transition('reconnecting', { attempt, error, retryAt: Date.now() + delay })) {
+      reconnectTimer = setTimeout(connect, delay);
+    }
+  };
+
+  const connect = () => {
+    reconnectTimer = null;
+    if (!transition('connecting', { retryAt: undefined })) return;
+    const token = {};
+    activeToken = token;
+    const isCurrent = () => activeToken === token;
+
+    try {
+      session = getGeminiClient().live.connect({
+        model: LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } },
+          },
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          systemInstruction: SYSTEM_INSTRUCTION,
+        },
+        callbacks: {
+          onopen: () => {
+            if (!isCurrent()) return;
+            transition('connected', { attempt: 0, error: undefined });
+            ensureMic();
+          },
+          onmessage: (message) => {
+            if (isCurrent()) handleMessage(message);
+          },
+          onclose: () => {
+            if (isCurrent()) handleDrop('The connection closed.');
+          },
+          onerror: (e) => {
+            console.error(e);
+            if (isCurrent()) handleDrop('Connection error occurred.');
+          },
+        },
+      });
+      session.catch((e) => {
+        console.error(e);
+        if (isCurrent()) handleDrop(errorMessage(e, 'Failed to start the conversation.'));
+      });
+    } catch (e) {
+      console.error(e);
+      handleDrop(errorMessage(e, 'Failed to start the conversation.'));
+    }
+  };
+
+  const start = () => {
+    if (state.status !== 'idle') return;
+    outputContext = createAudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+    connect();
+  };
+
+  const retry = () => {
+    if (state.status !== 'failed' && state.status !== 'reconnecting') return;
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    state = { ...state, attempt: 0 };
+    connect();
+  };
+
+  const say = (text: string): Promise<void> => {
+    if (!session || state.status !== 'connected') return Promise.reject(new Error('The conversation is not connected.'));
+    const current = session;
+    stopPlayback();
+    endSay();
+    return new Promise((resolve) => {
+      pendingSay = { text, spoken: '', resolve, turnComplete: false };
+      // Captioned straight away; replaced by what was actually spoken once it has played
+      options.onTranscript('user', text, false);
+      current.then(s => s.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: speakRequest(text) }] }],
+        turnComplete: true,
+      })).catch(() => endSay());
+    });
+  };
+
+  const interrupt = () => {
+    stopPlayback();
+    endSay();
+  };
+
+  const setMuted = (value: boolean) => {
+    muted = value;
+    mic?.setMuted(value);
+  };
+
+  const stop = () => {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    interrupt();
+    closeSession();
+    transition('closed', { retryAt: undefined });
+    mic?.stop();
+    mic = null;
+    outputContext?.close().catch(() => {});
+    outputContext = null;
+  };
+
+  return { start, stop, retry, say, interrupt, setMuted, sendVideoFrame };
+};
+
+// --- Transcripts ---
+
+const SPEAKER_LABELS: Record<TranscriptSpeaker, string> = { partner: 'Partner', user: 'Me' };
+
+export const formatTranscriptTime = (timestamp: number) => (
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+);
+
+/**
+ * Plain-text transcript for saving, one "[time] Speaker: text" line per turn.
+ */
+export const formatTranscript = (entries: TranscriptEntry[]): string => {
+  const date = entries.length > 0 ? new Date(entries[0].timestamp).toLocaleDateString() : '';
+  const lines = entries.map(entry => `[${formatTranscriptTime(entry.timestamp)}] ${SPEAKER_LABELS[entry.speaker]}: ${entry.text}`);
+  return [`Conversation ${date}`.trim(), '', ...lines, ''].join('\n');
+};
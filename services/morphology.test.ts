@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TileData } from '../types';
+import { conjugate, fixGrammar, getInflections, hasInflections, pluralize } from './morphology';
+
+const tile = (label: string, category: TileData['category'], extra: Partial<TileData> = {}): TileData => ({
+  id: label.toLowerCase(), label, emoji: '', color: '', category, ...extra,
+});
+
+test('conjugate handles regular and irregular verbs', () => {
+  assert.deepEqual(conjugate('eat'), { third: 'eats', past: 'ate', participle: 'eaten', ing: 'eating' });
+  assert.deepEqual(conjugate('Play'), { third: 'plays', past: 'played', participle: 'played', ing: 'playing' });
+  assert.equal(conjugate('watch').third, 'watches');
+  assert.equal(conjugate('run').ing, 'running');
+});
+
+test('pluralize handles regular and irregular nouns', () => {
+  assert.equal(pluralize('cup'), 'cups');
+  assert.equal(pluralize('dish'), 'dishes');
+  assert.equal(pluralize('baby'), 'babies');
+  assert.equal(pluralize('child'), 'children');
+});
+
+test('inflections keep the tile capitalisation and the rest of the label', () => {
+  const labels = getInflections(tile('Watch TV', 'Actions')).map(t => t.label);
+  assert.deepEqual(labels, ['Watches TV', 'Watched TV', 'Watching TV']);
+  assert.deepEqual(getInflections(tile('child', 'People')).map(t => t.label), ['children']);
+});
+
+test('blank and navigation tiles have no inflections', () => {
+  assert.deepEqual(getInflections(tile('', 'Actions')), []);
+  assert.deepEqual(getInflections(tile('   ', 'People')), []);
+  assert.equal(hasInflections(tile('Eat', 'Actions', { linkTo: 'food' })), false);
+});
+
+test('fixGrammar fixes subject-verb agreement', () => {
+  assert.equal(fixGrammar('I is happy'), 'I am happy.');
+  assert.equal(fixGrammar('they was tired'), 'They were tired.');
+  assert.equal(fixGrammar('he want eat'), 'He wants to eat.');
+  assert.equal(fixGrammar('I wants go'), 'I want to go.');
+  assert.equal(fixGrammar('I not want'), 'I do not want.');
+});
+
+test('fixGrammar treats this and that as third person', () => {
+  assert.equal(fixGrammar('that look good'), 'That looks good.');
+  assert.equal(fixGrammar('this not look good'), 'This does not look good.');
+  assert.equal(fixGrammar('that were fun'), 'That was fun.');
+});
+
+test('fixGrammar fixes verb forms after auxiliaries and articles', () => {
+  assert.equal(fixGrammar('I am eat'), 'I am eating.');
+  assert.equal(fixGrammar('I have eat'), 'I have eaten.');
+  assert.equal(fixGrammar('can to go'), 'Can go?');
+  assert.equal(fixGrammar('I want a apple'), 'I want an apple.');
+  assert.equal(fixGrammar('   '), '');
+});
@@ -0,0 +1,315 @@
+import { TileData } from '../types';
+
+// --- Lexicon ---
+//
+// A small, hand-written English morphology layer. It covers the verbs and nouns on
+// the built-in boards plus common irregulars, so inflections and the grammar fixer
+// work entirely offline.
+
+interface VerbForms {
+  third: string;      // he eats
+  past: string;       // he ate
+  participle: string; // he has eaten
+  ing: string;        // he is eating
+}
+
+// [third person, past, past participle, -ing]; omitted forms follow the regular rules
+const IRREGULAR_VERBS: Record<string, Partial<VerbForms>> = {
+  be: { third: 'is', past: 'was', participle: 'been', ing: 'being' },
+  have: { third: 'has', past: 'had', participle: 'had' },
+  do: { third: 'does', past: 'did', participle: 'done' },
+  go: { third: 'goes', past: 'went', participle: 'gone' },
+  eat: { past: 'ate', participle: 'eaten' },
+  drink: { past: 'drank', participle: 'drunk' },
+  sleep: { past: 'slept', participle: 'slept' },
+  read: { past: 'read', participle: 'read' },
+  write: { past: 'wrote', participle: 'written' },
+  draw: { past: 'drew', participle: 'drawn' },
+  run: { past: 'ran', participle: 'run' },
+  sit: { past: 'sat', participle: 'sat' },
+  stand: { past: 'stood', participle: 'stood' },
+  think: { past: 'thought', participle: 'thought' },
+  give: { past: 'gave', participle: 'given' },
+  take: { past: 'took', participle: 'taken' },
+  buy: { past: 'bought', participle: 'bought' },
+  find: { past: 'found', participle: 'found' },
+  feel: { past: 'felt', participle: 'felt' },
+  hear: { past: 'heard', participle: 'heard' },
+  see: { past: 'saw', participle: 'seen' },
+  come: { past: 'came', participle: 'come' },
+  get: { past: 'got', participle: 'got' },
+  make: { past: 'made', participle: 'made' },
+  say: { third: 'says', past: 'said', participle: 'said' },
+  tell: { past: 'told', participle: 'told' },
+  bring: { past: 'brought', participle: 'brought' },
+  know: { past: 'knew', participle: 'known' },
+  leave: { past: 'left', participle: 'left' },
+  lose: { past: 'lost', participle: 'lost' },
+  keep: { past: 'kept', participle: 'kept' },
+  hold: { past: 'held', participle: 'held' },
+  hurt: { past: 'hurt', participle: 'hurt' },
+  put: { past: 'put', participle: 'put' },
+  cut: { past: 'cut', participle: 'cut' },
+  sing: { past: 'sang', participle: 'sung' },
+  swim: { past: 'swam', participle: 'swum' },
+  wear: { past: 'wore', participle: 'worn' },
+  break: { past: 'broke', participle: 'broken' },
+  wake: { past: 'woke', participle: 'woken' },
+  ride: { past: 'rode', participle: 'ridden' },
+  fall: { past: 'fell', participle: 'fallen' },
+  throw: { past: 'threw', participle: 'thrown' },
+  pay: { past: 'paid', participle: 'paid' },
+  send: { past: 'sent', participle: 'sent' },
+  meet: { past: 'met', participle: 'met' },
+  understand: { past: 'understood', participle: 'understood' },
+};
+
+// Base-form verbs used on the built-in boards that aren't already listed as irregular
+const REGULAR_VERBS = [
+  'want', 'need', 'like', 'love', 'stop', 'look', 'listen', 'play', 'watch', 'walk', 'talk', 'wait',
+  'open', 'close', 'wash', 'clean', 'cook', 'call', 'text', 'laugh', 'cry', 'hug', 'kiss', 'help',
+  'brush', 'move', 'try', 'use', 'finish', 'start', 'turn', 'change', 'clap', 'dance', 'push', 'pull',
+];
+
+// Modals have a single form and are followed by a bare verb ("can go")
+const MODALS = ['can', 'could', 'will', 'would', 'should', 'must', 'may', 'might', 'shall'];
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  child: 'children', person: 'people', man: 'men', woman: 'women', tooth: 'teeth', foot: 'feet',
+  mouse: 'mice', knife: 'knives', leaf: 'leaves', life: 'lives', wife: 'wives', shelf: 'shelves',
+};
+
+// Nouns (and the adjectives sharing their boards) that have no useful plural
+const NO_PLURAL = new Set([
+  'water', 'food', 'help', 'pain', 'medicine', 'money', 'quiet', 'rest', 'hot', 'cold', 'nausea',
+  'suction', 'family', 'me', 'you', 'mom', 'dad', 'grandma', 'grandpa', 'toilet', 'wheelchair',
+  'juice', 'milk', 'music', 'tv', 'homework', 'police', 'everyone', 'nobody', 'someone',
+]);
+
+// Boards whose tiles start with a verb, and boards whose single-word tiles are nouns
+const VERB_CATEGORIES = ['Actions', 'Connectors'];
+const NOUN_CATEGORIES = ['Needs', 'People'];
+
+const VOWEL = /[aeiou]/;
+
+const isVerb = (word: string) => word in IRREGULAR_VERBS || REGULAR_VERBS.includes(word);
+
+// Short consonant-vowel-consonant verbs double the last letter: stop → stopped, hug → hugging
+const doublesFinalConsonant = (word: string) => {
+  if (word.length < 3 || /[wxy]$/.test(word)) return false;
+  const [a, b, c] = word.slice(-3);
+  const vowelCount = (word.match(/[aeiou]/g) || []).length;
+  return vowelCount === 1 && !VOWEL.test(a) && VOWEL.test(b) && !VOWEL.test(c);
+};
+
+const regularThird = (word: string) => {
+  if (/(s|sh|ch|x|z|o)$/.test(word)) return `${word}es`;
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  return `${word}s`;
+};
+
+const regularPast = (word: string) => {
+  if (word.endsWith('e')) return `${word}d`;
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ied`;
+  if (doublesFinalConsonant(word)) return `${word}${word.slice(-1)}ed`;
+  return `${word}ed`;
+};
+
+const regularIng = (word: string) => {
+  if (word.endsWith('ie')) return `${word.slice(0, -2)}ying`;
+  if (word.endsWith('e') && !word.endsWith('ee')) return `${word.slice(0, -1)}ing`;
+  if (doublesFinalConsonant(word)) return `${word}${word.slice(-1)}ing`;
+  return `${word}ing`;
+};
+
+/**
+ * All inflected forms of a base-form verb ("eat" → eats, ate, eaten, eating).
+ */
+export const conjugate = (verb: string): VerbForms => {
+  const base = verb.toLowerCase();
+  const irregular = IRREGULAR_VERBS[base] || {};
+  const past = irregular.past || regularPast(base);
+  return {
+    third: irregular.third || regularThird(base),
+    past,
+    participle: irregular.participle || past,
+    ing: irregular.ing || regularIng(base),
+  };
+};
+
+/**
+ * The plural of a noun ("cup" → cups, "child" → children).
+ */
+export const pluralize = (noun: string): string => {
+  const word = noun.toLowerCase();
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (/(s|sh|ch|x|z)$/.test(word)) return `${word}es`;
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  return `${word}s`;
+};
+
+// --- Tile Inflections ---
+
+// Keeps the tile's capitalisation style ("Eat" → "Eating")
+const matchCase = (form: string, original: string) => {
+  const initial = original.charAt(0);
+  return initial && initial === initial.toUpperCase() ? form.charAt(0).toUpperCase() + form.slice(1) : form;
+};
+
+const tileWords = (tile: TileData) => (tile.textToSpeak || tile.label).trim().split(/\s+/);
+
+/**
+ * Alternative forms of a tile offered on long-press: conjugations for verbs
+ * (the first word, so "Watch TV" → "Watching TV") and the plural for nouns.
+ * Each form is a new tile sharing the original's picture and colour.
+ */
+export const getInflections = (tile: TileData): TileData[] => {
+  if (tile.isNavigation || tile.linkTo) return [];
+  const words = tileWords(tile);
+  // Blank labels (e.g. picture-only tiles) have nothing to inflect
+  if (!words[0]) return [];
+  const first = words[0].toLowerCase();
+  const forms: string[] = [];
+
+  if (isVerb(first) && VERB_CATEGORIES.includes(tile.category)) {
+    const { third, past, participle, ing } = conjugate(first);
+    const rest = words.slice(1).join(' ');
+    [third, past, participle, ing]
+      .filter((form, index, all) => all.indexOf(form) === index)
+      .forEach(form => forms.push(rest ? `${matchCase(form, words[0])} ${rest}` : matchCase(form, words[0])));
+  } else if (words.length === 1 && NOUN_CATEGORIES.includes(tile.category) && !NO_PLURAL.has(first) && !/[^s]s$/.test(first)) {
+    forms.push(matchCase(pluralize(first), words[0]));
+  }
+
+  return forms.map(form => ({
+    ...tile,
+    id: `${tile.id}~${form.toLowerCase().replace(/\s+/g, '_')}`,
+    label: form,
+    textToSpeak: undefined,
+  }));
+};
+
+export const hasInflections = (tile: TileData) => getInflections(tile).length > 0;
+
+// --- Offline Grammar Fixer ---
+
+const BE_FORMS: Record<string, string> = { i: 'am', he: 'is', she: 'is', it: 'is', this: 'is', that: 'is', you: 'are', we: 'are', they: 'are' };
+const PAST_BE_FORMS: Record<string, string> = { i: 'was', he: 'was', she: 'was', it: 'was', this: 'was', that: 'was', you: 'were', we: 'were', they: 'were' };
+const THIRD_PERSON = ['he', 'she', 'it', 'this', 'that'];
+const SUBJECTS = Object.keys(BE_FORMS);
+// Verbs that take "to" before another verb ("want to eat")
+const TO_VERBS = ['want', 'need', 'like', 'love', 'try', 'wants', 'needs', 'likes', 'loves', 'tries'];
+// Verbs that are usually nouns straight after "want"/"need" ("I need help", not "I need to help")
+const NOUN_LIKE_VERBS = ['help', 'rest', 'break', 'hug', 'kiss', 'call', 'text'];
+const PERFECT_AUXILIARIES = ['have', 'has', 'had'];
+// Verbs from the Actions board (VERB_CATEGORIES) that can only be a verb after "is" or
+// "have", so "am eat" → "am eating" and "have eat" → "have eaten" keep the meaning.
+// Words that also work as nouns or adjectives ("is open", "is clean") are left out.
+const ACTION_VERBS = [
+  'go', 'look', 'listen', 'sleep', 'eat', 'drink', 'play', 'read', 'write', 'draw', 'watch', 'walk', 'run',
+  'sit', 'stand', 'talk', 'think', 'wait', 'give', 'take', 'wash', 'cook', 'buy', 'find', 'laugh', 'cry',
+].filter(verb => !NOUN_LIKE_VERBS.includes(verb));
+const QUESTION_STARTS = ['can', 'could', 'will', 'would', 'do', 'does', 'did', 'is', 'are', 'am', 'what', 'where', 'when', 'who', 'why', 'how'];
+
+// Tile labels are Title Case; keep "I" and acronyms ("TV") but lowercase the rest
+const normalizeCase = (word: string) => {
+  if (word.toLowerCase() === 'i') return 'I';
+  if (word.length > 1 && word === word.toUpperCase()) return word;
+  return word.toLowerCase();
+};
+
+// Maps any known inflection back to its base verb ("eats" → "eat")
+const baseVerb = (word: string): string | null => {
+  if (isVerb(word)) return word;
+  for (const verb of [...Object.keys(IRREGULAR_VERBS), ...REGULAR_VERBS]) {
+    if (conjugate(verb).third === word) return verb;
+  }
+  return null;
+};
+
+/**
+ * Rule-based fixes for common agreement errors in tile-built sentences, e.g.
+ * "I is happy" → "I am happy.", "he want eat" → "He wants to eat.". Runs offline
+ * and leaves anything it doesn't recognise unchanged.
+ */
+export const fixGrammar = (text: string): string => {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '';
+  const lower = words.map(w => w.toLowerCase());
+  const out: string[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = lower[i];
+    const prev = out.length > 0 ? out[out.length - 1].toLowerCase() : '';
+    const prev2 = out.length > 1 ? out[out.length - 2].toLowerCase() : '';
+
+    // Subject + be: "I is" → "I am", "they was" → "they were"
+    if (['am', 'is', 'are'].includes(word) && BE_FORMS[prev]) {
+      out.push(BE_FORMS[prev]);
+      continue;
+    }
+    if (['was', 'were'].includes(word) && PAST_BE_FORMS[prev]) {
+      out.push(PAST_BE_FORMS[prev]);
+      continue;
+    }
+
+    // Subject + not + verb: "I not want" → "I do not want", "he not want" → "he does not want"
+    if (word === 'not' && SUBJECTS.includes(prev) && lower[i + 1] && baseVerb(lower[i + 1])) {
+      out.push(THIRD_PERSON.includes(prev) ? 'does' : 'do', 'not');
+      continue;
+    }
+
+    const base = baseVerb(word);
+    if (base && word !== 'be') {
+      // "can to go" → "can go"
+      if (prev === 'to' && MODALS.includes(prev2)) {
+        out.pop();
+        out.push(base);
+        continue;
+      }
+      // After a modal, "do" or "to" the verb stays bare: "can goes" → "can go"
+      if (MODALS.includes(prev) || ['do', 'does', 'did', 'to'].includes(prev) || (prev === 'not' && ['do', 'does', 'did'].includes(prev2))) {
+        out.push(base);
+        continue;
+      }
+      // "want eat" → "want to eat"
+      if (TO_VERBS.includes(prev) && !TO_VERBS.includes(word) && !NOUN_LIKE_VERBS.includes(word)) {
+        out.push('to', base);
+        continue;
+      }
+      // "am eat" → "am eating"
+      if (['am', 'is', 'are', 'was', 'were'].includes(prev) && base === word && ACTION_VERBS.includes(word)) {
+        out.push(conjugate(base).ing);
+        continue;
+      }
+      // "have eat" → "have eaten"
+      if (PERFECT_AUXILIARIES.includes(prev) && base === word && ACTION_VERBS.includes(word)) {
+        out.push(conjugate(base).participle);
+        continue;
+      }
+      // Present tense agreement: "he want" → "he wants", "I wants" → "I want"
+      if (THIRD_PERSON.includes(prev) && base === word) {
+        out.push(conjugate(base).third);
+        continue;
+      }
+      if (SUBJECTS.includes(prev) && !THIRD_PERSON.includes(prev) && base !== word) {
+        out.push(base);
+        continue;
+      }
+    }
+
+    // "a apple" → "an apple"
+    if (prev === 'a' && /^[aeiou]/.test(word)) {
+      out[out.length - 1] = 'an';
+    }
+
+    out.push(normalizeCase(words[i]));
+  }
+
+  let sentence = out.join(' ');
+  sentence = sentence.charAt(0).toUpperCase() + sentence.slice(1);
+  if (!/[.!?]$/.test(sentence)) {
+    sentence += QUESTION_STARTS.includes(lower[0]) ? '?' : '.';
+  }
+  return sentence;
+};
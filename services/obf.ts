@@ -0,0 +1,361 @@
+import { TileData, Vocabulary, VocabularyOverlay, BoardDefinition, GridPosition } from '../types';
+import { TILE_COLOR_OPTIONS } from '../constants';
+import { addBoard, upsertTile, arrangeGrid, MAX_GRID_SIZE } from './vocabulary';
+import { createZip, readZip, ZipEntry } from './zip';
+import { dataUrlToBytes, bytesToDataUrl } from './files';
+
+// Open Board Format (https://www.openboardformat.org) import & export.
+// Only the subset needed to round-trip VoiceBridge tiles is modelled here.
+
+const OBF_FORMAT = 'open-board-0.1';
+const GRID_COLUMNS = 5; // Matches the widest responsive grid in the app (boards without a fixed layout)
+
+interface ObfImage {
+  id: string;
+  content_type?: string;
+  data?: string; // Data URL (inline images)
+  url?: string; // Remote image
+  path?: string; // Path inside an .obz bundle
+  width?: number;
+  height?: number;
+}
+
+interface ObfButton {
+  id: string;
+  label?: string;
+  vocalization?: string;
+  image_id?: string;
+  background_color?: string;
+  border_color?: string;
+  hidden?: boolean;
+  load_board?: { id?: string; name?: string; path?: string; url?: string };
+}
+
+interface ObfBoard {
+  format: string;
+  id: string;
+  locale?: string;
+  name?: string;
+  buttons: ObfButton[];
+  grid?: { rows: number; columns: number; order: (string | null)[][] };
+  images?: ObfImage[];
+  sounds?: unknown[];
+}
+
+interface ObfManifest {
+  format: string;
+  root: string;
+  paths: { boards?: Record<string, string>; images?: Record<string, string> };
+}
+
+export interface ObfImportResult {
+  overlay: VocabularyOverlay;
+  rootBoardId: string;
+  boardCount: number;
+  tileCount: number;
+}
+
+// --- Colors (Tailwind class <-> rgb) ---
+
+// Approximate light (background) and mid (border) shades for each editor color preset
+const PALETTE: Record<string, { bg: [number, number, number]; border: [number, number, number] }> = {
+  white: { bg: [255, 255, 255], border: [203, 213, 225] },
+  slate: { bg: [241, 245, 249], border: [203, 213, 225] },
+  red: { bg: [254, 226, 226], border: [252, 165, 165] },
+  orange: { bg: [255, 237, 213], border: [253, 186, 116] },
+  amber: { bg: [254, 243, 199], border: [252, 211, 77] },
+  yellow: { bg: [254, 249, 195], border: [253, 224, 71] },
+  green: { bg: [220, 252, 231], border: [134, 239, 172] },
+  teal: { bg: [204, 251, 241], border: [94, 234, 212] },
+  blue: { bg: [219, 234, 254], border: [147, 197, 253] },
+  indigo: { bg: [224, 231, 255], border: [165, 180, 252] },
+  purple: { bg: [243, 232, 255], border: [216, 180, 254] },
+  pink: { bg: [252, 231, 243], border: [249, 168, 212] },
+};
+
+const rgb = ([r, g, b]: [number, number, number]) => `rgb(${r}, ${g}, ${b})`;
+
+const colorsFromClass = (color: string): { background: string; border: string } => {
+  const match = /bg-(white|[a-z]+)(?:-\d+)?/.exec(color);
+  const entry = PALETTE[match?.[1] || 'white'] || PALETTE.white;
+  return { background: rgb(entry.bg), border: rgb(entry.border) };
+};
+
+const parseColor = (value?: string): [number, number, number] | null => {
+  if (!value) return null;
+  const rgbMatch = /rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i.exec(value);
+  if (rgbMatch) return [Number(rgbMatch[1]), Number(rgbMatch[2]), Number(rgbMatch[3])];
+  const hexMatch = /^#?([0-9a-f]{6})$/i.exec(value.trim());
+  if (hexMatch) {
+    const n = parseInt(hexMatch[1], 16);
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+  }
+  return null;
+};
+
+// Maps an OBF color to the closest editor preset so imported tiles still look at home
+const classFromColor = (value?: string): string => {
+  const color = parseColor(value);
+  if (!color) return TILE_COLOR_OPTIONS[0].value;
+  let best: string = TILE_COLOR_OPTIONS[0].value;
+  let bestDistance = Infinity;
+  TILE_COLOR_OPTIONS.forEach(option => {
+    const [r, g, b] = PALETTE[option.id].bg;
+    const distance = (r - color[0]) ** 2 + (g - color[1]) ** 2 + (b - color[2]) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = option.value;
+    }
+  });
+  return best;
+};
+
+// --- Export ---
+
+const safePath = (id: string) => id.replace(/[^\w-]/g, '_');
+const boardPath = (id: string) => `boards/${safePath(id)}.obf`;
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/svg+xml': 'svg', 'image/webp': 'webp' };
+
+/**
+ * Converts one board's tiles to OBF. When `bundle` is given, images are written
+ * as separate files into it; otherwise they are embedded as data URLs.
+ */
+const buildObfBoard = (
+  boardId: string,
+  name: string,
+  tiles: TileData[],
+  bundle?: ZipEntry[]
+): ObfBoard => {
+  const buttons: ObfButton[] = [];
+  const images: ObfImage[] = [];
+  const exported = tiles.filter(tile => !tile.isNavigation); // OBF has no portable "back" button; apps provide their own
+
+  exported
+    .forEach(tile => {
+      const { background, border } = colorsFromClass(tile.color);
+      const button: ObfButton = {
+        id: tile.id,
+        label: tile.label,
+        background_color: background,
+        border_color: border,
+      };
+      if (tile.textToSpeak && tile.textToSpeak !== tile.label) button.vocalization = tile.textToSpeak;
+      if (tile.visibility === 'hidden') button.hidden = true;
+      if (tile.linkTo) button.load_board = { id: tile.linkTo, path: bundle ? boardPath(tile.linkTo) : undefined };
+
+      if (tile.imageUrl) {
+        const imageId = `img-${tile.id}`;
+        const decoded = dataUrlToBytes(tile.imageUrl);
+        if (!decoded) {
+          images.push({ id: imageId, url: tile.imageUrl });
+        } else if (bundle) {
+          const path = `images/${safePath(tile.id)}.${EXTENSIONS[decoded.mimeType] || 'png'}`;
+          bundle.push({ name: path, data: decoded.bytes });
+          images.push({ id: imageId, content_type: decoded.mimeType, path });
+        } else {
+          images.push({ id: imageId, content_type: decoded.mimeType, data: tile.imageUrl });
+        }
+        button.image_id = imageId;
+      } else if (tile.emoji) {
+        // Keep the emoji visible in apps without image support
+        button.label = `${tile.emoji} ${tile.label}`;
+      }
+
+      buttons.push(button);
+    });
+
+  // Fixed-grid boards keep their cells; other boards are laid out in reading order
+  const positions = exported.map(tile => tile.position).filter((p): p is GridPosition => !!p);
+  const columns = positions.length > 0 ? Math.max(...positions.map(p => p.column + 1)) : GRID_COLUMNS;
+  const minRows = positions.length > 0 ? Math.max(...positions.map(p => p.row + 1)) : 0;
+  const { rows, placements } = arrangeGrid(exported, { rows: minRows, columns, positions: {} });
+  const order: (string | null)[][] = Array.from({ length: rows }, () => new Array<string | null>(columns).fill(null));
+  placements.forEach(({ tile, position }) => { order[position.row][position.column] = tile.id; });
+
+  return {
+    format: OBF_FORMAT,
+    id: boardId,
+    locale: 'en',
+    name,
+    buttons,
+    grid: { rows, columns, order },
+    images,
+    sounds: [],
+  };
+};
+
+/**
+ * Exports a single board as a standalone .obf file (images embedded).
+ */
+export const exportObf = (boardId: string, name: string, tiles: TileData[]): Blob => {
+  const board = buildObfBoard(boardId, name, tiles);
+  return new Blob([JSON.stringify(board, null, 2)], { type: 'application/json' });
+};
+
+/**
+ * Exports every board plus saved phrases as an .obz bundle rooted at the General board.
+ */
+export const exportObz = (
+  vocabulary: Vocabulary,
+  boardLabels: Record<string, string>,
+  savedTiles: TileData[]
+): Blob => {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const manifest: ObfManifest = { format: OBF_FORMAT, root: boardPath('General'), paths: { boards: {}, images: {} } };
+
+  const boards: [string, string, TileData[]][] = Object.entries(vocabulary).map(([id, tiles]) => [id, boardLabels[id] || id, tiles]);
+  if (savedTiles.length > 0) boards.push(['Saved', 'Saved Phrases', savedTiles]);
+
+  boards.forEach(([id, name, tiles]) => {
+    const imageEntries: ZipEntry[] = [];
+    const board = buildObfBoard(id, name, tiles, imageEntries);
+    entries.push(...imageEntries);
+    board.images?.forEach(image => {
+      if (image.path) manifest.paths.images![image.id] = image.path;
+    });
+    manifest.paths.boards![id] = boardPath(id);
+    entries.push({ name: boardPath(id), data: encoder.encode(JSON.stringify(board, null, 2)) });
+  });
+
+  entries.unshift({ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+// --- Import ---
+
+const parseJson = <T>(bytes: Uint8Array | undefined, label: string): T => {
+  if (!bytes) throw new Error(`Missing ${label}.`);
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes)) as T;
+  } catch {
+    throw new Error(`${label} is not valid JSON.`);
+  }
+};
+
+// Splits a leading emoji back out of a label (our export prefixes emoji-only tiles this way)
+const splitEmojiLabel = (label: string): { emoji: string; label: string } | null => {
+  const match = /^([\p{Extended_Pictographic}\u200d\ufe0f]+)\s+(.+)$/u.exec(label);
+  return match ? { emoji: match[1], label: match[2] } : null;
+};
+
+// Image-only buttons still need a label to speak: the picture's file name, or failing that the button id
+const labelFromImage = (button: ObfButton, image?: ObfImage): string => {
+  const source = image?.path || (image?.url && !image.url.startsWith('data:') ? image.url : '');
+  const file = source.split(/[?#]/)[0].split('/').pop() || '';
+  return file.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || String(button.id);
+};
+
+const isZip = (buffer: ArrayBuffer) => {
+  const head = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  return head[0] === 0x50 && head[1] === 0x4b; // "PK"
+};
+
+/**
+ * Imports an .obf or .obz file into the overlay as user boards.
+ * The root board is added to the sidebar; linked boards become folders.
+ */
+export const importBoardFile = async (file: File, overlay: VocabularyOverlay): Promise<ObfImportResult> => {
+  const buffer = await file.arrayBuffer();
+  const boards: { path: string; board: ObfBoard }[] = [];
+  let files = new Map<string, Uint8Array>();
+  let rootPath = '';
+
+  if (isZip(buffer)) {
+    files = await readZip(buffer);
+    const manifest = parseJson<ObfManifest>(files.get('manifest.json'), 'manifest.json');
+    rootPath = manifest.root;
+    const paths = manifest.paths?.boards ? Object.values(manifest.paths.boards) : Array.from(files.keys()).filter(p => p.endsWith('.obf'));
+    paths.forEach(path => boards.push({ path, board: parseJson<ObfBoard>(files.get(path), path) }));
+  } else {
+    const board = parseJson<ObfBoard>(new Uint8Array(buffer), file.name);
+    rootPath = file.name;
+    boards.push({ path: file.name, board });
+  }
+
+  if (boards.length === 0 || !boards.every(b => Array.isArray(b.board.buttons))) {
+    throw new Error("No Open Board Format boards found in this file.");
+  }
+
+  // Assign local ids up front so load_board links can be resolved in any order
+  const stamp = Date.now().toString(36);
+  const idByObfId = new Map<string, string>();
+  const idByPath = new Map<string, string>();
+  boards.forEach(({ path, board }, index) => {
+    const localId = `obf-${stamp}-${index}`;
+    if (board.id) idByObfId.set(board.id, localId);
+    idByPath.set(path, localId);
+  });
+
+  let result = overlay;
+  let tileCount = 0;
+  const rootBoardId = idByPath.get(rootPath) || idByPath.get(boards[0].path)!;
+
+  boards.forEach(({ path, board }) => {
+    const boardId = idByPath.get(path)!;
+    const isRoot = boardId === rootBoardId;
+    const definition: BoardDefinition = {
+      id: boardId,
+      label: board.name || (isRoot ? 'Imported Board' : 'Imported Folder'),
+      emoji: isRoot ? '📥' : '📁',
+      showInSidebar: isRoot,
+    };
+    result = addBoard(result, definition);
+
+    const buttonsById = new Map(board.buttons.map(b => [b.id, b]));
+    const imagesById = new Map((board.images || []).map(img => [img.id, img]));
+
+    // Respect the grid order when present (row-major); otherwise the button list order
+    const ordered: ObfButton[] = board.grid?.order
+      ? board.grid.order.flat().map(id => (id ? buttonsById.get(id) : undefined)).filter((b): b is ObfButton => !!b)
+      : board.buttons;
+
+    // OBF grids are fixed, so imported boards keep each button in its cell
+    const positions: Record<string, GridPosition> = {};
+    board.grid?.order?.forEach((row, rowIndex) => row.forEach((id, column) => {
+      const key = `${boardId}-${id}`;
+      if (id && !positions[key]) positions[key] = { row: rowIndex, column };
+    }));
+
+    // A button placed in several cells (or listed twice) is imported once, in the first of them
+    const imported = new Set<string>();
+    ordered.forEach(button => {
+      if (imported.has(button.id)) return;
+      imported.add(button.id);
+      const image = button.image_id ? imagesById.get(button.image_id) : undefined;
+      let imageUrl = image?.data || image?.url;
+      if (!image?.data && image?.path && files.has(image.path)) {
+        imageUrl = bytesToDataUrl(files.get(image.path)!, image.content_type || 'image/png');
+      }
+      const label = button.label?.trim();
+      if (!label && !imageUrl) return;
+
+      const linkTo = button.load_board
+        ? (button.load_board.path && idByPath.get(button.load_board.path)) || (button.load_board.id && idByObfId.get(button.load_board.id)) || undefined
+        : undefined;
+
+      const split = !imageUrl && label ? splitEmojiLabel(label) : null;
+      const tile: TileData = {
+        id: `${boardId}-${button.id}`,
+        label: split?.label || label || labelFromImage(button, image),
+        emoji: imageUrl ? '' : split?.emoji || (linkTo ? '📁' : '💬'),
+        color: classFromColor(button.background_color),
+        category: boardId,
+        textToSpeak: button.vocalization || undefined,
+        imageUrl,
+        linkTo,
+        visibility: button.hidden ? 'hidden' : undefined,
+      };
+      result = upsertTile(result, tile);
+      tileCount++;
+    });
+
+    if (board.grid && board.grid.rows > 0 && board.grid.columns > 0) {
+      const layout = { rows: Math.min(board.grid.rows, MAX_GRID_SIZE), columns: Math.min(board.grid.columns, MAX_GRID_SIZE), positions };
+      result = { ...result, layouts: { ...result.layouts, [boardId]: layout } };
+    }
+  });
+
+  return { overlay: result, rootBoardId, boardCount: boards.length, tileCount };
+};
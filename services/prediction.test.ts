@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TileData, Vocabulary } from '../types';
+import { addToHistory, buildPredictionModel, predictNextTiles, rankCompletions, sanitizeHistory, scorePhrase, tokenize } from './prediction';
+
+const tile = (label: string, extra: Partial<TileData> = {}): TileData => ({
+  id: label.toLowerCase(), label, emoji: '', color: '', category: 'General', ...extra,
+});
+
+const vocabulary: Vocabulary = {
+  General: [tile('I'), tile('Want'), tile('Go'), tile('Swim'), tile('Juice')],
+  Needs: [tile('Want', { id: 'needs-want' }), tile('Water')],
+};
+
+test('tokenize lowercases and keeps apostrophes', () => {
+  assert.deepEqual(tokenize("Don't stop, PLEASE!"), ["don't", 'stop', 'please']);
+});
+
+test('seed phrases make useful predictions before any history', () => {
+  const model = buildPredictionModel(vocabulary, [], []);
+  const next = predictNextTiles(model, vocabulary, [tile('I')]);
+  assert.equal(next[0].label, 'Want');
+});
+
+test('tiles that speak the same text are only suggested once', () => {
+  const model = buildPredictionModel(vocabulary, [], []);
+  const next = predictNextTiles(model, vocabulary, [tile('I')]);
+  assert.equal(next.filter(t => t.label === 'Want').length, 1);
+});
+
+test('spoken history outranks the seed phrases', () => {
+  const sentence = [tile('I'), tile('Want')];
+  const before = predictNextTiles(buildPredictionModel(vocabulary, [], []), vocabulary, sentence);
+  assert.notEqual(before[0].label, 'Juice');
+
+  const model = buildPredictionModel(vocabulary, [], ['I want juice', 'I want juice']);
+  assert.equal(predictNextTiles(model, vocabulary, sentence)[0].label, 'Juice');
+});
+
+test('scorePhrase backs off to shorter contexts', () => {
+  const model = buildPredictionModel(vocabulary, [], ['I want juice']);
+  const trigram = scorePhrase(model, ['i', 'want'], 'juice');
+  const bigram = scorePhrase(model, ['you', 'want'], 'juice');
+  const unigram = scorePhrase(model, ['swim'], 'juice');
+  assert.ok(trigram > bigram && bigram > unigram && unigram > 0);
+  assert.equal(scorePhrase(model, [], 'zebra'), 0);
+});
+
+test('rankCompletions puts labels starting with the input first', () => {
+  const model = buildPredictionModel(vocabulary, [], []);
+  const ranked = rankCompletions(model, [], [tile('Swim'), tile('Water'), tile('Want')], 'w');
+  assert.deepEqual(ranked.map(t => t.label), ['Want', 'Water', 'Swim']);
+});
+
+test('history keeps text entries, most recent last', () => {
+  assert.deepEqual(sanitizeHistory(['a', 1, null, 'b']), ['a', 'b']);
+  assert.deepEqual(sanitizeHistory('a'), []);
+  assert.deepEqual(addToHistory(['a'], '  b  '), ['a', 'b']);
+  assert.deepEqual(addToHistory(['a'], '   '), ['a']);
+});
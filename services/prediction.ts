@@ -0,0 +1,187 @@
+import { TileData, Vocabulary } from '../types';
+import { HISTORY_STORAGE_KEY, DEFAULT_PROFILE_ID, profileStorageKey } from '../constants';
+import { loadMigratedRecord, saveRecord } from './storage';
+
+// --- N-gram Model ---
+//
+// A small word-level trigram model with "stupid backoff" scoring. It is trained
+// entirely on-device from the vocabulary, saved phrases and the user's own
+// spoken history, so predictions work offline and adapt to how each person talks.
+
+const SENTENCE_START = '<s>';
+const BACKOFF = 0.4;
+
+// Core patterns built from the default vocabulary so predictions are useful before any history exists
+const SEED_PHRASES = [
+  'I want water', 'I want food', 'I want to go', 'I want to eat', 'I want to drink', 'I want more',
+  'I need help', 'I need the toilet', 'I need medicine', 'I need a break', 'I need to rest',
+  'I am tired', 'I am happy', 'I am sad', 'I am hungry', 'I am thirsty', 'I am in pain', 'I am cold', 'I am hot',
+  'I like that', 'I do not want that', 'I do not like that', 'Can you help me', 'Can I have more',
+  'You are my friend', 'I love you', 'Thank you', 'Yes please', 'No thank you', 'Stop please', 'Wait please',
+  'I want to watch TV', 'I want to go outside', 'I want to sleep', 'Call my mom', 'Call my dad',
+];
+
+// Sources are weighted so the user's own sentences outrank the generic seed phrases
+const WEIGHTS = { seed: 1, vocabulary: 1, saved: 3, history: 4 };
+const MAX_HISTORY = 500;
+
+interface ContextCounts {
+  total: number;
+  counts: Map<string, number>;
+}
+
+export interface PredictionModel {
+  unigrams: Map<string, number>;
+  totalUnigrams: number;
+  // Keyed by the previous one (bigrams) or two (trigrams) words joined with a space
+  bigrams: Map<string, ContextCounts>;
+  trigrams: Map<string, ContextCounts>;
+}
+
+/**
+ * Splits text into lowercase word tokens, keeping apostrophes ("don't").
+ */
+export const tokenize = (text: string): string[] => {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}'\s]/gu, ' ').split(/\s+/).filter(Boolean);
+};
+
+const increment = (table: Map<string, ContextCounts>, context: string, word: string, weight: number) => {
+  const entry = table.get(context) || { total: 0, counts: new Map<string, number>() };
+  entry.counts.set(word, (entry.counts.get(word) || 0) + weight);
+  entry.total += weight;
+  table.set(context, entry);
+};
+
+const tileText = (tile: TileData) => tile.textToSpeak || tile.label;
+
+// Only words the user can currently see and select are suggested
+const isSpeakableTile = (tile: TileData) => !tile.linkTo && !tile.isNavigation && (tile.visibility || 'visible') === 'visible';
+
+/**
+ * Trains a model from the built-in seed phrases, every speakable tile, saved
+ * phrases and previously spoken sentences.
+ */
+export const buildPredictionModel = (vocabulary: Vocabulary, savedTiles: TileData[], history: string[]): PredictionModel => {
+  const model: PredictionModel = { unigrams: new Map(), totalUnigrams: 0, bigrams: new Map(), trigrams: new Map() };
+
+  const train = (text: string, weight: number) => {
+    const words = [SENTENCE_START, ...tokenize(text)];
+    for (let i = 1; i < words.length; i++) {
+      model.unigrams.set(words[i], (model.unigrams.get(words[i]) || 0) + weight);
+      model.totalUnigrams += weight;
+      increment(model.bigrams, words[i - 1], words[i], weight);
+      if (i >= 2) increment(model.trigrams, `${words[i - 2]} ${words[i - 1]}`, words[i], weight);
+    }
+  };
+
+  SEED_PHRASES.forEach(text => train(text, WEIGHTS.seed));
+  Object.values<TileData[]>(vocabulary).forEach(tiles => tiles.filter(isSpeakableTile).forEach(tile => train(tileText(tile), WEIGHTS.vocabulary)));
+  savedTiles.forEach(tile => train(tileText(tile), WEIGHTS.saved));
+  history.forEach(text => train(text, WEIGHTS.history));
+  return model;
+};
+
+const conditional = (table: Map<string, ContextCounts>, context: string, word: string): number => {
+  const entry = table.get(context);
+  if (!entry) return 0;
+  return (entry.counts.get(word) || 0) / entry.total;
+};
+
+// Stupid backoff: trigram, else bigram, else unigram, discounted at each step down.
+// `context` always starts with the sentence-start marker.
+const scoreWord = (model: PredictionModel, context: string[], word: string): number => {
+  const prev1 = context[context.length - 1];
+  const prev2 = context.length >= 2 ? context[context.length - 2] : undefined;
+  if (prev2) {
+    const tri = conditional(model.trigrams, `${prev2} ${prev1}`, word);
+    if (tri > 0) return tri;
+  }
+  const bi = conditional(model.bigrams, prev1, word);
+  if (bi > 0) return BACKOFF * bi;
+  return BACKOFF * BACKOFF * ((model.unigrams.get(word) || 0) / Math.max(1, model.totalUnigrams));
+};
+
+/**
+ * Likelihood of a (possibly multi-word) phrase following the given words.
+ */
+export const scorePhrase = (model: PredictionModel, precedingWords: string[], phrase: string): number => {
+  const context = [SENTENCE_START, ...precedingWords];
+  let score = 1;
+  for (const word of tokenize(phrase)) {
+    score *= scoreWord(model, context, word);
+    if (score === 0) return 0;
+    context.push(word);
+  }
+  return score;
+};
+
+/**
+ * Converts the current sentence into the word context used for prediction.
+ */
+export const sentenceToWords = (sentence: TileData[]): string[] => tokenize(sentence.map(tileText).join(' '));
+
+// --- Predictions ---
+
+/**
+ * The tiles most likely to come next, best first. Tiles that speak the same text
+ * (e.g. "Want" in two categories) are only suggested once.
+ */
+export const predictNextTiles = (model: PredictionModel, vocabulary: Vocabulary, sentence: TileData[], limit = 8): TileData[] => {
+  const words = sentenceToWords(sentence);
+  const seen = new Set<string>();
+  const scored: { tile: TileData; score: number }[] = [];
+
+  Object.values<TileData[]>(vocabulary).forEach(tiles => tiles.forEach(tile => {
+    const key = tokenize(tileText(tile)).join(' ');
+    if (!isSpeakableTile(tile) || !key || seen.has(key)) return;
+    seen.add(key);
+    const score = scorePhrase(model, words, tileText(tile));
+    if (score > 0) scored.push({ tile, score });
+  }));
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, limit).map(s => s.tile);
+};
+
+/**
+ * Orders type-ahead matches: labels starting with the typed text first, then by
+ * how likely each is to follow the current sentence.
+ */
+export const rankCompletions = (model: PredictionModel, sentence: TileData[], matches: TileData[], input: string): TileData[] => {
+  const words = sentenceToWords(sentence);
+  const lowerInput = input.toLowerCase().trim();
+  return matches
+    .map(tile => ({
+      tile,
+      startsWith: tile.label.toLowerCase().startsWith(lowerInput),
+      score: scorePhrase(model, words, tileText(tile)),
+    }))
+    .sort((a, b) => {
+      if (a.startsWith !== b.startsWith) return a.startsWith ? -1 : 1;
+      return b.score - a.score;
+    })
+    .map(entry => entry.tile);
+};
+
+// --- Utterance History ---
+
+// Keeps the text entries, most recent last, up to the history limit
+export const sanitizeHistory = (raw: unknown): string[] => (
+  Array.isArray(raw) ? raw.filter((t): t is string => typeof t === 'string').slice(-MAX_HISTORY) : []
+);
+
+export const loadUtteranceHistory = (profileId: string = DEFAULT_PROFILE_ID): Promise<string[]> => {
+  return loadMigratedRecord(profileStorageKey(HISTORY_STORAGE_KEY, profileId), sanitizeHistory, []);
+};
+
+export const saveUtteranceHistory = (history: string[], profileId: string = DEFAULT_PROFILE_ID): Promise<boolean> => {
+  return saveRecord(profileStorageKey(HISTORY_STORAGE_KEY, profileId), history);
+};
+
+/**
+ * Appends a spoken sentence, keeping only the most recent entries.
+ */
+export const addToHistory = (history: string[], text: string): string[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return history;
+  return [...history, trimmed].slice(-MAX_HISTORY);
+};
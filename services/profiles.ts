@@ -0,0 +1,138 @@
+import { ProfileData, ProfileRegistry, TileData, UserProfile } from '../types';
+import {
+  DEFAULT_SETTINGS,
+  DEFAULT_PROFILE_ID,
+  PROFILES_STORAGE_KEY,
+  PROFILE_SCOPED_KEYS,
+  STORAGE_KEY,
+  PINNED_STORAGE_KEY,
+  profileStorageKey
+} from '../constants';
+import { loadSettings, sanitizeSettings } from './settings';
+import { loadVocabularyOverlay } from './vocabulary';
+import { loadUtteranceHistory } from './prediction';
+import { loadMigratedRecord, saveRecord, deleteRecord, pruneUnusedImages } from './storage';
+
+// --- Registry ---
+
+const DEFAULT_PROFILE: UserProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Me',
+  emoji: '🙂',
+  defaultSettings: DEFAULT_SETTINGS,
+};
+
+const DEFAULT_REGISTRY: ProfileRegistry = {
+  activeProfileId: DEFAULT_PROFILE_ID,
+  profiles: [DEFAULT_PROFILE],
+};
+
+/**
+ * Loads the list of profiles on this device. The default profile always exists.
+ */
+export const loadProfileRegistry = (): ProfileRegistry => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (!stored) return DEFAULT_REGISTRY;
+    const raw = JSON.parse(stored);
+
+    const profiles: UserProfile[] = (Array.isArray(raw?.profiles) ? raw.profiles : [])
+      .filter((p: any) => p && typeof p.id === 'string' && typeof p.name === 'string')
+      .map((p: any) => ({
+        id: p.id,
+        name: p.name,
+        emoji: typeof p.emoji === 'string' ? p.emoji : '🙂',
+        defaultSettings: sanitizeSettings(p.defaultSettings),
+      }));
+    if (!profiles.some(p => p.id === DEFAULT_PROFILE_ID)) profiles.unshift(DEFAULT_PROFILE);
+
+    const activeProfileId = profiles.some(p => p.id === raw.activeProfileId) ? raw.activeProfileId : DEFAULT_PROFILE_ID;
+    return {
+      activeProfileId,
+      profiles,
+      switchPinHash: typeof raw.switchPinHash === 'string' ? raw.switchPinHash : undefined,
+    };
+  } catch (e) {
+    console.error("Failed to load profiles", e);
+    return DEFAULT_REGISTRY;
+  }
+};
+
+export const saveProfileRegistry = (registry: ProfileRegistry): boolean => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(registry));
+    return true;
+  } catch (e) {
+    console.error("Failed to save profiles", e);
+    return false;
+  }
+};
+
+export const getActiveProfile = (registry: ProfileRegistry): UserProfile => {
+  return registry.profiles.find(p => p.id === registry.activeProfileId) || registry.profiles[0];
+};
+
+// --- Profile Data ---
+
+const sanitizeTileList = (raw: unknown): TileData[] => (Array.isArray(raw) ? raw : []);
+
+/**
+ * Loads a list of tiles (saved phrases or pins) for a profile.
+ * `key` is the un-namespaced storage key, e.g. STORAGE_KEY.
+ */
+export const loadTileList = (key: string, profileId: string = DEFAULT_PROFILE_ID): Promise<TileData[]> => {
+  return loadMigratedRecord(profileStorageKey(key, profileId), sanitizeTileList, []);
+};
+
+/**
+ * Persists a list of tiles. Resolves to false if storage is unavailable or full.
+ */
+export const saveTileList = (key: string, tiles: TileData[], profileId: string = DEFAULT_PROFILE_ID): Promise<boolean> => {
+  return saveRecord(profileStorageKey(key, profileId), tiles);
+};
+
+/**
+ * Reads everything persisted for one profile.
+ */
+export const loadProfileData = async (profile: UserProfile): Promise<ProfileData> => {
+  const [savedTiles, pinnedTiles, vocabulary, history] = await Promise.all([
+    loadTileList(STORAGE_KEY, profile.id),
+    loadTileList(PINNED_STORAGE_KEY, profile.id),
+    loadVocabularyOverlay(profile.id),
+    loadUtteranceHistory(profile.id),
+  ]);
+  return { settings: loadSettings(profile.id, profile.defaultSettings), savedTiles, pinnedTiles, vocabulary, history };
+};
+
+/**
+ * Removes every stored key belonging to a profile, along with pictures only it used.
+ */
+export const deleteProfileData = async (profileId: string): Promise<void> => {
+  if (profileId === DEFAULT_PROFILE_ID) return;
+  for (const key of PROFILE_SCOPED_KEYS) {
+    const scopedKey = profileStorageKey(key, profileId);
+    localStorage.removeItem(scopedKey);
+    try {
+      await deleteRecord(scopedKey);
+    } catch (e) {
+      console.error(`Failed to delete ${scopedKey}`, e);
+    }
+  }
+  await pruneUnusedImages();
+};
+
+// --- Switch PIN ---
+
+/**
+ * Hashes a PIN so it isn't stored in plain text. This deters casual profile
+ * switching on a shared tablet; it is not meant as strong security.
+ */
+export const hashPin = async (pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`voicebridge:${pin}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyPin = async (registry: ProfileRegistry, pin: string): Promise<boolean> => {
+  if (!registry.switchPinHash) return true;
+  return (await hashPin(pin)) === registry.switchPinHash;
+};
@@ -0,0 +1,82 @@
+import { RefineResult, SentenceRefiner } from '../types';
+import { geminiRefiner } from './gemini';
+import { fixGrammar } from './morphology';
+import { withFallback } from './fallback';
+
+// --- Local Refiner ---
+
+const MAX_CANDIDATES = 3;
+const MAX_MERGED_CANDIDATES = 5;
+
+const withoutEndPunctuation = (text: string) => text.replace(/[.!?]+$/, '');
+
+// Politer phrasings for plain requests: "I want water." → "Can I have water, please?"
+const politeVariants = (sentence: string): string[] => {
+  const body = withoutEndPunctuation(sentence);
+  const wantTo = body.match(/^I (?:want|need) to (.+)$/i);
+  if (wantTo) return [`Can I ${wantTo[1]}, please?`, `${body}, please.`];
+  const want = body.match(/^I (?:want|need) (.+)$/i);
+  if (want) return [`Can I have ${want[1]}, please?`, `${body}, please.`];
+  return [];
+};
+
+/**
+ * Rule-based stand-in for the AI refiner. Works offline and needs no API key.
+ */
+export const localRefiner: SentenceRefiner = {
+  source: 'local',
+  isAvailable: () => true,
+  refine: async (words) => {
+    const fixed = fixGrammar(words);
+    return fixed ? [fixed, ...politeVariants(fixed)].slice(0, MAX_CANDIDATES) : [];
+  },
+};
+
+// --- Smart Fix ---
+
+// Ignores case, spacing and punctuation so "I want water" and "I want water." count as unchanged
+const isSameText = (a: string, b: string) => {
+  const simplify = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  return simplify(a) === simplify(b);
+};
+
+// The AI's phrasings first, then local fixes that add something different
+const mergeCandidates = (primary: string[], alternatives: string[], original: string): string[] => {
+  const merged = [...primary];
+  alternatives.forEach(candidate => {
+    if (!isSameText(candidate, original) && !merged.some(c => isSameText(c, candidate))) merged.push(candidate);
+  });
+  return merged.slice(0, MAX_MERGED_CANDIDATES);
+};
+
+/**
+ * Suggests phrasings for a sentence. The AI refiner (when available) gets the
+ * words as typed and the local fixes are offered after its suggestions as
+ * alternatives; if the AI can't be used the local suggestions are returned
+ * along with the reason.
+ */
+export const refineSentence = async (
+  words: string,
+  refiner: SentenceRefiner = geminiRefiner,
+  fallback: SentenceRefiner = localRefiner
+): Promise<RefineResult> => {
+  const original = words.trim();
+  if (!original) return { original, candidates: [], source: 'none' };
+
+  const localCandidates = await fallback.refine(original).catch((e) => {
+    console.error("Local refine failed", e);
+    return [] as string[];
+  });
+
+  const { value: candidates, source, error } = await withFallback(
+    'Smart Fix',
+    refiner, async () => mergeCandidates(await refiner.refine(original), localCandidates, original),
+    fallback, () => localCandidates
+  );
+  // The AI's suggestions stand as they are; the local ones only when they fix something
+  if (!error) return { original, candidates, source };
+  if (candidates.length === 0 || candidates.every(c => isSameText(c, original))) {
+    return { original, candidates: [], source: 'none', error };
+  }
+  return { original, candidates, source, error };
+};
@@ -0,0 +1,158 @@
+import { ReplySuggester, ReplySuggestions, TileData, Vocabulary } from '../types';
+import { geminiReplySuggester } from './gemini';
+import { withFallback } from './fallback';
+
+// --- Local Suggester ---
+
+const MIN_REPLIES = 3;
+const MAX_REPLIES = 6;
+const MAX_VOCABULARY_WORDS = 150;
+
+const GENERIC_REPLIES = ["I don't know", 'Wait please', 'Say it again please'];
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Drops leading articles and possessives: "a cup of tea" → "cup of tea"
+const withoutArticle = (text: string) => text.replace(/^(?:a|an|the|some|your|my)\s+/i, '').trim();
+
+// Words that end the lead-in to a choice: "Would you like | a cup of tea or a glass of water?"
+const CHOICE_LEAD_IN = new Set(['want', 'like', 'prefer', 'need', 'have', 'get', 'choose', 'pick', 'eat', 'drink', 'play', 'watch', 'wear', 'it', 'is', 'are', 'be', 'to', 'at', 'in', 'on']);
+const CHOICE_PREPOSITIONS = new Set(['to', 'at', 'in', 'on']);
+// An option starting with one of these is a clause ("you coming", "not"), not something to pick
+const NOT_AN_OPTION = /^(?:i|you|we|they|he|she|it|not|do|does|did|would|will|can|should|shall)\b/;
+const MAX_OPTION_WORDS = 3;
+
+// A short noun phrase without its article ("a cup of tea" → "cup of tea"), or null
+const optionPhrase = (words: string[]): string | null => {
+  const phrase = withoutArticle(words.join(' '));
+  const count = phrase.split(' ').filter(Boolean).length;
+  if (count === 0 || count > MAX_OPTION_WORDS || NOT_AN_OPTION.test(phrase)) return null;
+  return phrase;
+};
+
+// "Do you want tea or coffee?" → ["tea", "coffee"]. Both sides must be short noun phrases.
+const choiceOptions = (question: string): [string, string] | null => {
+  const match = question.match(/([^?!.,;:]*)\bor\b([^?!.,;:]*)/);
+  if (!match) return null;
+  const before = match[1].split(/\s+/).filter(Boolean);
+  const after = match[2].split(/\s+/).filter(Boolean);
+
+  // The first option starts after the lead-in; the second is cut at the same kind of boundary
+  let start = 0;
+  before.forEach((word, i) => { if (CHOICE_LEAD_IN.has(word)) start = i + 1; });
+  if (after.length > 0 && CHOICE_PREPOSITIONS.has(after[0])) after.shift();
+
+  const first = optionPhrase(before.slice(start));
+  const second = optionPhrase(after);
+  return first && second ? [first, second] : null;
+};
+
+const YES_NO_START = /^(?:do|does|did|are|is|was|can|could|would|will|have|has|should|shall|may)\b/i;
+
+const rulesFor = (utterance: string): string[] => {
+  const options = choiceOptions(utterance.toLowerCase());
+  if (options) return [capitalize(options[0]), capitalize(options[1]), 'Neither', 'Both'];
+
+  const text = utterance.toLowerCase().replace(/[^\p{L}\p{N}'\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+  if (/^how (?:are|do) you\b|how do you feel|how's it going|how are things/.test(text)) {
+    return ["I'm good", "I'm tired", 'Not great', "I'm happy"];
+  }
+  if (/^what do you (?:want|need)|^what would you like/.test(text)) return ['Water', 'Food', 'Help', 'Toilet', 'Nothing'];
+  if (/^where\b/.test(text)) return ['Here', 'There', 'Home', "I don't know"];
+  if (/^when\b/.test(text)) return ['Now', 'Later', 'Tomorrow', "I don't know"];
+  if (/^who\b/.test(text)) return ['Me', 'You', 'Mom', 'Dad', "I don't know"];
+  if (/^(?:hi|hello|hey|good (?:morning|afternoon|evening))\b/.test(text)) return ['Hello', 'Hi, how are you?', 'Good to see you'];
+  if (/\b(?:bye|goodbye|see you)\b/.test(text)) return ['Goodbye', 'See you later', 'Thank you'];
+  if (/\b(?:thank you|thanks)\b/.test(text)) return ["You're welcome", 'No problem'];
+
+  // "Are you coming or not?" is a yes/no question too
+  if (YES_NO_START.test(text) || /\bor not$/.test(text)) {
+    return /\b(?:want|like|need)\b/.test(text)
+      ? ['Yes please', 'No thank you', 'Maybe later', "I don't know"]
+      : ['Yes', 'No', 'Maybe', "I don't know"];
+  }
+  return [];
+};
+
+/**
+ * Rule-based stand-in for the AI suggester. Deterministic, works offline and
+ * needs no API key, so it also serves as a predictable suggester for testing.
+ */
+export const localReplySuggester: ReplySuggester = {
+  source: 'local',
+  isAvailable: () => true,
+  suggest: async (utterance) => rulesFor(utterance),
+};
+
+// --- Reply Suggestions ---
+
+const replyKey = (reply: string) => reply.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Removes duplicates and blanks, then tops up to three replies from `extra`
+const completeReplies = (replies: string[], extra: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  [...replies, ...extra].forEach(reply => {
+    const key = replyKey(reply);
+    if (!key || seen.has(key) || (result.length >= MIN_REPLIES && !replies.includes(reply))) return;
+    seen.add(key);
+    result.push(reply.trim());
+  });
+  return result.slice(0, MAX_REPLIES);
+};
+
+// Speakable words from the boards, used to steer the AI towards familiar vocabulary
+const vocabularyWords = (vocabulary: Vocabulary): string[] => {
+  const words = new Set<string>();
+  Object.values<TileData[]>(vocabulary).forEach(tiles => tiles.forEach(tile => {
+    if (!tile.linkTo && !tile.isNavigation && (tile.visibility || 'visible') === 'visible') words.add(tile.label);
+  }));
+  return [...words].slice(0, MAX_VOCABULARY_WORDS);
+};
+
+/**
+ * Suggests three to six replies to the partner's last utterance. The AI
+ * suggester is used when available; otherwise (or if it fails) the local rules
+ * answer, topped up with generic replies.
+ */
+export const suggestReplies = async (
+  utterance: string,
+  vocabulary: Vocabulary,
+  suggester: ReplySuggester = geminiReplySuggester,
+  fallback: ReplySuggester = localReplySuggester
+): Promise<ReplySuggestions> => {
+  const trimmed = utterance.trim();
+  if (!trimmed) return { utterance: trimmed, replies: [], source: 'none' };
+
+  const localReplies = await fallback.suggest(trimmed, []).catch((e) => {
+    console.error("Local reply suggestions failed", e);
+    return [] as string[];
+  });
+
+  const { value: replies, source, error } = await withFallback(
+    'Reply suggestions',
+    suggester, async () => completeReplies(await suggester.suggest(trimmed, vocabularyWords(vocabulary)), [...localReplies, ...GENERIC_REPLIES]),
+    fallback, () => completeReplies(localReplies, GENERIC_REPLIES)
+  );
+  return { utterance: trimmed, replies, source, error };
+};
+
+/**
+ * A tile for a suggested reply, reusing the matching vocabulary tile's look
+ * when the reply matches a word the user already has.
+ */
+export const replyToTile = (reply: string, vocabulary: Vocabulary): TileData => {
+  const key = replyKey(reply);
+  for (const tiles of Object.values<TileData[]>(vocabulary)) {
+    const match = tiles.find(tile => !tile.linkTo && !tile.isNavigation && (tile.visibility || 'visible') === 'visible' && replyKey(tile.textToSpeak || tile.label) === key);
+    if (match) return { ...match, id: `reply-${match.id}` };
+  }
+  return {
+    id: `reply-${key.replace(/\s+/g, '-')}`,
+    label: reply,
+    emoji: '💬',
+    color: 'bg-sky-100 border-sky-300',
+    category: 'Replies',
+  };
+};
@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildScanTree } from './scanning';
+
+// Just enough of the DOM for buildScanTree: regions holding buttons laid out at a given height
+interface FakeButton {
+  label: string;
+  top: number;
+  disabled?: boolean;
+  hidden?: boolean;
+}
+
+const fakePage = (regions: { name: string; buttons: FakeButton[] }[]) => {
+  const regionElements = regions.map(({ name, buttons }) => {
+    const region = { dataset: { scanRegion: name } } as unknown as HTMLElement;
+    const buttonElements = buttons.map(button => ({
+      disabled: Boolean(button.disabled),
+      title: '',
+      textContent: button.label,
+      getAttribute: () => null,
+      closest: (selector: string) => (selector === '[data-scan-region]' ? region : null),
+      getClientRects: () => (button.hidden ? [] : [{}]),
+      getBoundingClientRect: () => ({ top: button.top }),
+    }));
+    Object.assign(region, { querySelectorAll: () => buttonElements });
+    return region;
+  });
+  return { querySelectorAll: () => regionElements } as unknown as ParentNode;
+};
+
+const labels = (nodes: ReturnType<typeof buildScanTree>): unknown[] => (
+  nodes.map(node => (node.children.length > 0 ? { [node.label]: labels(node.children) } : node.label))
+);
+
+const page = fakePage([
+  { name: 'Sentence', buttons: [{ label: 'Speak', top: 0 }] },
+  {
+    name: 'Board',
+    buttons: [
+      { label: 'Drink', top: 103 }, { label: 'Eat', top: 100 },
+      { label: 'Play', top: 200 }, { label: 'Sleep', top: 200, disabled: true }, { label: 'Wash', top: 200, hidden: true },
+      { label: 'Go', top: 300 }, { label: 'Stop', top: 304 },
+    ],
+  },
+  { name: 'Empty', buttons: [{ label: 'Off', top: 0, hidden: true }] },
+]);
+
+test('linear scanning visits every usable button in order', () => {
+  assert.deepEqual(labels(buildScanTree('linear', page)), ['Speak', 'Drink', 'Eat', 'Play', 'Go', 'Stop']);
+});
+
+test('row-column scanning groups buttons into rows by position', () => {
+  assert.deepEqual(labels(buildScanTree('row-column', page)), [
+    'Speak',
+    { 'Board, row 1': ['Drink', 'Eat'] },
+    'Play',
+    { 'Board, row 3': ['Go', 'Stop'] },
+  ]);
+});
+
+test('group scanning opens a region before its rows', () => {
+  assert.deepEqual(labels(buildScanTree('group', page)), [
+    'Speak',
+    { Board: [{ 'Board, row 1': ['Drink', 'Eat'] }, 'Play', { 'Board, row 3': ['Go', 'Stop'] }] },
+  ]);
+});
+
+test('a group highlights all of its buttons', () => {
+  const [, row] = buildScanTree('row-column', page);
+  assert.equal(row.elements.length, 2);
+});
@@ -0,0 +1,232 @@
+import { HotkeyBindings, ScanMethod } from '../types';
+import { isPlaybackActive, webSpeechEngine } from './speech';
+import { isEditable, matchHotkey } from './hotkeys';
+
+// --- Scan Targets ---
+//
+// Scanning works on the rendered page: containers marked with `data-scan-region`
+// (sidebar, sentence strip, board, keyboard) are split into rows of buttons by
+// their on-screen position. Anything inside `data-scan-skip` is left out.
+
+interface ScanNode {
+  label: string;
+  elements: HTMLElement[];
+  children: ScanNode[]; // Empty for a single button
+}
+
+const ROW_TOLERANCE_PX = 8;
+const HIGHLIGHT_OUTLINE = '4px solid #f59e0b';
+
+const isScannable = (el: HTMLElement) => {
+  if ((el as HTMLButtonElement).disabled || el.closest('[data-scan-skip]')) return false;
+  // Hidden (display: none) or collapsed elements have no layout boxes
+  return el.getClientRects().length > 0;
+};
+
+const elementLabel = (el: HTMLElement) => el.getAttribute('aria-label') || el.title || el.textContent?.trim() || 'Button';
+
+const leaf = (el: HTMLElement): ScanNode => ({ label: elementLabel(el), elements: [el], children: [] });
+
+// A group of one is selected directly rather than opened
+const group = (label: string, children: ScanNode[]): ScanNode => (
+  children.length === 1 ? children[0] : { label, elements: children.flatMap(c => c.elements), children }
+);
+
+const splitIntoRows = (items: HTMLElement[]): HTMLElement[][] => {
+  const rows: { top: number; items: HTMLElement[] }[] = [];
+  items.forEach(el => {
+    const top = el.getBoundingClientRect().top;
+    const row = rows.find(r => Math.abs(r.top - top) <= ROW_TOLERANCE_PX);
+    if (row) row.items.push(el);
+    else rows.push({ top, items: [el] });
+  });
+  return rows.sort((a, b) => a.top - b.top).map(r => r.items);
+};
+
+/**
+ * Builds the top scanning level for the current page.
+ */
+export const buildScanTree = (method: ScanMethod, root: ParentNode = document): ScanNode[] => {
+  const regions = Array.from(root.querySelectorAll<HTMLElement>('[data-scan-region]'))
+    .map(region => ({
+      label: region.dataset.scanRegion || 'Section',
+      rows: splitIntoRows(Array.from(region.querySelectorAll<HTMLElement>('button'))
+        // Buttons inside a nested region are scanned as part of that region instead
+        .filter(el => el.closest('[data-scan-region]') === region && isScannable(el))),
+    }))
+    .filter(region => region.rows.length > 0);
+
+  if (method === 'linear') {
+    return regions.flatMap(region => region.rows.flat().map(leaf));
+  }
+  const rowsOf = (region: { label: string; rows: HTMLElement[][] }) => (
+    region.rows.map((row, index) => group(`${region.label}, row ${index + 1}`, row.map(leaf)))
+  );
+  if (method === 'row-column') {
+    return regions.flatMap(rowsOf);
+  }
+  return regions.map(region => group(region.label, rowsOf(region)));
+};
+
+// --- Scanner ---
+
+export interface SwitchScannerOptions {
+  method: ScanMethod;
+  input: 'auto' | 'step';
+  rate: number;
+  loops: number;
+  audioCues: boolean;
+  voiceId?: string;
+  volume?: number;
+  hotkeys?: HotkeyBindings; // Presses bound to a hotkey are left for it
+}
+
+interface ScanLevel {
+  nodes: ScanNode[];
+  index: number;
+  passes: number;
+}
+
+/**
+ * Drives switch access. One-switch ('auto') users press Space or Enter to select
+ * the highlighted item while the highlight advances on a timer; two-switch
+ * ('step') users move with Space and select with Enter. Selecting a group scans
+ * inside it; a level left unselected for `loops` passes backs out to its parent,
+ * and at the top auto-scan pauses until the next press.
+ */
+export const createSwitchScanner = (options: SwitchScannerOptions) => {
+  let levels: ScanLevel[] = [];
+  let highlighted: HTMLElement[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let paused = false;
+  let active = false;
+  let isCueSpeaking = false;
+
+  const clearHighlight = () => {
+    highlighted.forEach(el => {
+      el.style.outline = '';
+      el.style.outlineOffset = '';
+    });
+    highlighted = [];
+  };
+
+  const currentLevel = () => levels[levels.length - 1];
+  const currentNode = () => {
+    const level = currentLevel();
+    return level?.nodes[level.index];
+  };
+
+  // Cues share the synthesizer with the user's own speech, so they never cut it
+  // off: a cue is skipped while anything (including the previous cue) is playing
+  const announce = (text: string) => {
+    if (!options.audioCues || !webSpeechEngine.isAvailable()) return;
+    if (isCueSpeaking || isPlaybackActive()) return;
+    isCueSpeaking = true;
+    webSpeechEngine.speak(text, options.voiceId || '', { rate: 1.3, volume: options.volume })
+      .catch(e => console.warn("Scan cue failed", e))
+      .finally(() => { isCueSpeaking = false; });
+  };
+
+  const show = (withCue = true) => {
+    clearHighlight();
+    const node = currentNode();
+    if (!node) return;
+    highlighted = node.elements;
+    highlighted.forEach(el => {
+      el.style.outline = HIGHLIGHT_OUTLINE;
+      el.style.outlineOffset = '2px';
+    });
+    node.elements[0].scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    if (withCue) announce(node.label);
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (options.input === 'auto' && !paused) timer = setTimeout(advance, options.rate);
+  };
+
+  const restart = (withCue = true) => {
+    if (!active) return;
+    const nodes = buildScanTree(options.method);
+    levels = nodes.length > 0 ? [{ nodes, index: 0, passes: 0 }] : [];
+    paused = false;
+    show(withCue);
+    schedule();
+  };
+
+  const advance = () => {
+    const level = currentLevel();
+    // The page changed under us (e.g. a new board opened); start again from the top
+    if (!level || level.nodes.some(node => node.elements.some(el => !el.isConnected))) {
+      restart();
+      return;
+    }
+    level.index = (level.index + 1) % level.nodes.length;
+    if (level.index === 0 && ++level.passes >= options.loops) {
+      if (levels.length > 1) {
+        levels.pop();
+      } else {
+        // Nothing chosen after several passes: stop until the user presses again
+        paused = true;
+        clearHighlight();
+        schedule();
+        return;
+      }
+    }
+    show();
+    schedule();
+  };
+
+  const select = () => {
+    const node = currentNode();
+    if (!node || node.elements.some(el => !el.isConnected)) {
+      restart();
+      return;
+    }
+    if (node.children.length > 0) {
+      levels.push({ nodes: node.children, index: 0, passes: 0 });
+      show();
+      schedule();
+      return;
+    }
+    clearHighlight();
+    node.elements[0].click();
+    // Let React re-render the page before scanning it again. The first item isn't
+    // announced, as the selected button has usually just started speaking.
+    setTimeout(() => restart(false), 0);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if ((e.key !== ' ' && e.key !== 'Enter') || isEditable(e.target)) return;
+    // Modified presses (the default Speak hotkey is Alt+Enter) and configured hotkeys aren't switch presses
+    if (e.altKey || e.ctrlKey || e.metaKey) return;
+    if (options.hotkeys && matchHotkey(e, options.hotkeys)) return;
+    // Keep the key from also pressing whichever button has focus
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.repeat) return;
+
+    if (paused || levels.length === 0) {
+      restart();
+      return;
+    }
+    if (options.input === 'step' && e.key === ' ') advance();
+    else select();
+  };
+
+  return {
+    start: () => {
+      active = true;
+      window.addEventListener('keydown', handleKeyDown, true);
+      restart();
+    },
+    stop: () => {
+      active = false;
+      window.removeEventListener('keydown', handleKeyDown, true);
+      if (timer) clearTimeout(timer);
+      clearHighlight();
+      levels = [];
+    },
+  };
+};
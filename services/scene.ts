@@ -0,0 +1,149 @@
+import { SceneAnalyzer, SceneBox, SceneImage, SceneItem, SceneItemKind, SceneResult, TileData } from '../types';
+import { geminiSceneAnalyzer } from './gemini';
+import { withFallback } from './fallback';
+
+// --- Local Analyzer ---
+
+const MAX_SCENE_ITEMS = 12;
+
+// Things worth saying about almost any scene, used when the picture can't be analysed
+const GENERIC_SCENE_ITEMS: SceneItem[] = [
+  { label: 'Look', emoji: '👀', kind: 'action' },
+  { label: 'That', emoji: '👉', kind: 'object' },
+  { label: 'Someone', emoji: '🧑', kind: 'person' },
+  { label: 'I like it', emoji: '👍', kind: 'action' },
+  { label: "I don't like it", emoji: '👎', kind: 'action' },
+  { label: 'What is that?', emoji: '❓', kind: 'action' },
+  { label: 'Give me', emoji: '🤲', kind: 'action' },
+  { label: 'Go there', emoji: '➡️', kind: 'action' },
+];
+
+/**
+ * Offline stand-in for the AI analyzer. It doesn't look at the picture: it
+ * always returns the same general words for pointing things out, so it also
+ * serves as a predictable analyzer for testing.
+ */
+export const localSceneAnalyzer: SceneAnalyzer = {
+  source: 'local',
+  isAvailable: () => true,
+  analyze: async () => GENERIC_SCENE_ITEMS,
+};
+
+// --- Scene Analysis ---
+
+// Removes blank and repeated labels and caps the list at a board's worth of tiles
+const uniqueItems = (items: SceneItem[]): SceneItem[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = item.label.trim().toLowerCase();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, MAX_SCENE_ITEMS);
+};
+
+/**
+ * Finds the things in a camera frame worth talking about. The AI analyzer is
+ * used when available; otherwise (or if it fails) the local analyzer's general
+ * words are returned with the reason.
+ */
+export const describeScene = async (
+  image: SceneImage,
+  analyzer: SceneAnalyzer = geminiSceneAnalyzer,
+  fallback: SceneAnalyzer = localSceneAnalyzer
+): Promise<SceneResult> => {
+  const { value: items, source, error } = await withFallback(
+    'Scene description',
+    analyzer, async () => {
+      const found = uniqueItems(await analyzer.analyze(image));
+      if (found.length === 0) throw new Error("Nothing recognised in the picture.");
+      return found;
+    },
+    fallback, async () => uniqueItems(await fallback.analyze(image).catch((e) => {
+      console.error("Local scene analysis failed", e);
+      return [] as SceneItem[];
+    }))
+  );
+  return { items, source: items.length > 0 ? source : 'none', error };
+};
+
+// --- Camera Frames ---
+
+const FRAME_MAX_SIZE = 1024; // Longest side sent for analysis
+const CROP_SIZE = 256;
+const CROP_PADDING = 0.1; // Share of the box added on each side so the item isn't clipped
+
+export interface CapturedFrame {
+  canvas: HTMLCanvasElement; // Kept for cropping tile pictures
+  image: SceneImage;
+  dataUrl: string; // For showing the snapshot
+}
+
+/**
+ * Snapshots the current video frame as a JPEG, scaled down so its longest side
+ * is at most 1024 px. Returns null until the video has a frame to show.
+ */
+export const captureFrame = (video: HTMLVideoElement): CapturedFrame | null => {
+  const { videoWidth, videoHeight } = video;
+  if (!videoWidth || !videoHeight) return null;
+  const scale = Math.min(1, FRAME_MAX_SIZE / Math.max(videoWidth, videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(videoWidth * scale);
+  canvas.height = Math.round(videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
+  return { canvas, dataUrl, image: { data: dataUrl.split(',')[1], mimeType: 'image/jpeg' } };
+};
+
+/**
+ * A square picture of one item, cut from the frame around its box (padded a
+ * little and centred) and returned as a JPEG data URL.
+ */
+export const cropFrame = (frame: HTMLCanvasElement, box: SceneBox): string | null => {
+  const padX = box.width * CROP_PADDING;
+  const padY = box.height * CROP_PADDING;
+  const width = (box.width + padX * 2) * frame.width;
+  const height = (box.height + padY * 2) * frame.height;
+  const side = Math.min(Math.max(width, height), frame.width, frame.height);
+  if (side < 1) return null;
+  const centerX = (box.x + box.width / 2) * frame.width;
+  const centerY = (box.y + box.height / 2) * frame.height;
+  const sx = Math.min(Math.max(0, centerX - side / 2), frame.width - side);
+  const sy = Math.min(Math.max(0, centerY - side / 2), frame.height - side);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CROP_SIZE;
+  canvas.height = CROP_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(frame, sx, sy, side, side, 0, 0, CROP_SIZE, CROP_SIZE);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// --- Scene Tiles ---
+
+const KIND_COLORS: Record<SceneItemKind, string> = {
+  object: 'bg-orange-50 border-orange-200',
+  person: 'bg-blue-100 border-blue-300',
+  action: 'bg-blue-200 border-blue-400',
+};
+
+// People first, then objects, then actions, keeping the analyzer's order within each
+const KIND_ORDER: SceneItemKind[] = ['person', 'object', 'action'];
+
+/**
+ * A temporary board for what's in the picture. Tiles get a picture cropped from
+ * the frame when the item has a box and `frame` is given, otherwise its emoji.
+ */
+export const sceneItemsToTiles = (items: SceneItem[], frame?: HTMLCanvasElement | null): TileData[] => (
+  KIND_ORDER.flatMap(kind => items.filter(item => item.kind === kind)).map((item, index) => ({
+    id: `scene-${index}-${item.label.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-')}`,
+    label: item.label,
+    emoji: item.emoji,
+    color: KIND_COLORS[item.kind],
+    category: 'Scene',
+    imageUrl: (frame && item.box && cropFrame(frame, item.box)) || undefined,
+  }))
+);
@@ -0,0 +1,200 @@
+import { UserSettings, AccessibilitySettings, HotkeyAction, HotkeyBindings } from '../types';
+import { DEFAULT_SETTINGS, SETTINGS_STORAGE_KEY, VOICE_OPTIONS, SPEECH_ENGINE_OPTIONS, VOCABULARY_LEVELS, DEFAULT_PROFILE_ID, profileStorageKey } from '../constants';
+
+// --- Schema Versioning ---
+
+// Bump this whenever the shape of UserSettings changes and add a matching migration below.
+export const SETTINGS_SCHEMA_VERSION = 8;
+
+interface StoredSettings {
+  version: number;
+  settings: unknown;
+}
+
+// Settings as read from storage, before validation
+type RawSettings = Record<string, unknown>;
+
+const asRecord = (value: unknown): RawSettings => (
+  value && typeof value === 'object' ? value as RawSettings : {}
+);
+
+// Each migration upgrades a raw settings object from version N to N + 1.
+// Version 0 is the legacy, un-versioned shape where `accessibility` may be missing.
+const migrations: Record<number, (raw: RawSettings) => RawSettings> = {
+  0: (raw) => ({
+    ...raw,
+    accessibility: { ...DEFAULT_SETTINGS.accessibility, ...asRecord(raw.accessibility) },
+  }),
+  // v1 -> v2: speech engine selection. Existing users keep Gemini with the device voice as backup,
+  // matching the old behaviour of falling back to speechSynthesis.
+  1: (raw) => ({
+    ...raw,
+    speechEngine: 'gemini',
+    fallbackSpeechEngine: 'webspeech',
+    webSpeechVoice: '',
+  }),
+  // v2 -> v3: selection feedback (off by default, so nothing changes until the user opts in)
+  2: (raw) => ({
+    ...raw,
+    accessibility: {
+      ...asRecord(raw.accessibility),
+      selectionFeedback: 'silent',
+      feedbackVoiceName: '',
+      feedbackVolume: DEFAULT_SETTINGS.accessibility.feedbackVolume,
+    },
+  }),
+  // v3 -> v4: switch scanning options (only used once 'scan' mode is chosen)
+  3: (raw) => {
+    const { scanMethod, scanInput, scanRate, scanLoops, scanAudioCues } = DEFAULT_SETTINGS.accessibility;
+    return {
+      ...raw,
+      accessibility: { ...asRecord(raw.accessibility), scanMethod, scanInput, scanRate, scanLoops, scanAudioCues },
+    };
+  },
+  // v4 -> v5: configurable hotkeys
+  4: (raw) => ({ ...raw, hotkeys: { ...DEFAULT_SETTINGS.hotkeys } }),
+  // v5 -> v6: dwell cooldown and progress indicator style
+  5: (raw) => {
+    const { dwellCooldown, dwellIndicator } = DEFAULT_SETTINGS.accessibility;
+    return { ...raw, accessibility: { ...asRecord(raw.accessibility), dwellCooldown, dwellIndicator } };
+  },
+  // v6 -> v7: touch access profile (defaults behave like an ordinary tap)
+  6: (raw) => {
+    const { touchRepeatDelay, touchSelectOn, touchDragTarget, touchIgnoreMultiFinger } = DEFAULT_SETTINGS.accessibility;
+    return {
+      ...raw,
+      accessibility: { ...asRecord(raw.accessibility), touchRepeatDelay, touchSelectOn, touchDragTarget, touchIgnoreMultiFinger },
+    };
+  },
+  // v7 -> v8: vocabulary levels (existing users keep every word)
+  7: (raw) => ({ ...raw, vocabularyLevel: 0, lockedTiles: DEFAULT_SETTINGS.lockedTiles }),
+};
+
+// --- Validation ---
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, value));
+};
+
+const pickEnum = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T => {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+};
+
+const pickBoolean = (value: unknown, fallback: boolean): boolean => {
+  return typeof value === 'boolean' ? value : fallback;
+};
+
+/**
+ * Coerces an arbitrary object into valid UserSettings.
+ * Unknown fields are dropped, out-of-range numbers are clamped, and anything
+ * missing or of the wrong type falls back to DEFAULT_SETTINGS.
+ */
+export const sanitizeSettings = (raw: unknown): UserSettings => {
+  const defaults = DEFAULT_SETTINGS;
+  const source = asRecord(raw);
+  const a11y = asRecord(source.accessibility);
+  const defaultA11y = defaults.accessibility;
+
+  const accessibility: AccessibilitySettings = {
+    mode: pickEnum(a11y.mode, ['standard', 'dwell', 'scan'] as const, defaultA11y.mode),
+    dwellTime: clampNumber(a11y.dwellTime, 500, 3000, defaultA11y.dwellTime),
+    dwellCooldown: clampNumber(a11y.dwellCooldown, 0, 3000, defaultA11y.dwellCooldown),
+    dwellIndicator: pickEnum(a11y.dwellIndicator, ['ring', 'fill', 'bar'] as const, defaultA11y.dwellIndicator),
+    highContrast: pickBoolean(a11y.highContrast, defaultA11y.highContrast),
+    speakOnHover: pickBoolean(a11y.speakOnHover, defaultA11y.speakOnHover),
+    gridGap: clampNumber(a11y.gridGap, 0, 40, defaultA11y.gridGap),
+    clickHoldTime: clampNumber(a11y.clickHoldTime, 0, 1000, defaultA11y.clickHoldTime),
+    touchRepeatDelay: clampNumber(a11y.touchRepeatDelay, 0, 3000, defaultA11y.touchRepeatDelay),
+    touchSelectOn: pickEnum(a11y.touchSelectOn, ['press', 'release'] as const, defaultA11y.touchSelectOn),
+    touchDragTarget: pickEnum(a11y.touchDragTarget, ['first', 'last'] as const, defaultA11y.touchDragTarget),
+    touchIgnoreMultiFinger: pickBoolean(a11y.touchIgnoreMultiFinger, defaultA11y.touchIgnoreMultiFinger),
+    selectionFeedback: pickEnum(a11y.selectionFeedback, ['silent', 'word', 'sentence'] as const, defaultA11y.selectionFeedback),
+    feedbackVoiceName: pickEnum(a11y.feedbackVoiceName, ['', ...VOICE_OPTIONS.map(v => v.id)], defaultA11y.feedbackVoiceName),
+    feedbackVolume: clampNumber(a11y.feedbackVolume, 0.1, 1, defaultA11y.feedbackVolume),
+    scanMethod: pickEnum(a11y.scanMethod, ['linear', 'row-column', 'group'] as const, defaultA11y.scanMethod),
+    scanInput: pickEnum(a11y.scanInput, ['auto', 'step'] as const, defaultA11y.scanInput),
+    scanRate: clampNumber(a11y.scanRate, 500, 5000, defaultA11y.scanRate),
+    scanLoops: clampNumber(a11y.scanLoops, 1, 10, defaultA11y.scanLoops),
+    scanAudioCues: pickBoolean(a11y.scanAudioCues, defaultA11y.scanAudioCues),
+  };
+
+  const rawHotkeys = asRecord(source.hotkeys);
+  const hotkeys = {} as HotkeyBindings;
+  (Object.keys(defaults.hotkeys) as HotkeyAction[]).forEach(action => {
+    const binding = rawHotkeys[action];
+    hotkeys[action] = typeof binding === 'string' ? binding : defaults.hotkeys[action];
+  });
+
+  return {
+    tileSize: clampNumber(source.tileSize, 100, 300, defaults.tileSize),
+    textSize: clampNumber(source.textSize, 14, 48, defaults.textSize),
+    voiceName: pickEnum(source.voiceName, VOICE_OPTIONS.map(v => v.id), defaults.voiceName),
+    speechEngine: pickEnum(source.speechEngine, SPEECH_ENGINE_OPTIONS.map(e => e.id), defaults.speechEngine),
+    fallbackSpeechEngine: pickEnum(source.fallbackSpeechEngine, [...SPEECH_ENGINE_OPTIONS.map(e => e.id), 'none' as const], defaults.fallbackSpeechEngine),
+    webSpeechVoice: typeof source.webSpeechVoice === 'string' ? source.webSpeechVoice : defaults.webSpeechVoice,
+    sidebarPosition: pickEnum(source.sidebarPosition, ['left', 'right'] as const, defaults.sidebarPosition),
+    vocabularyLevel: Math.round(clampNumber(source.vocabularyLevel, 0, VOCABULARY_LEVELS.length, defaults.vocabularyLevel)),
+    lockedTiles: pickEnum(source.lockedTiles, ['hidden', 'disabled'] as const, defaults.lockedTiles),
+    hotkeys,
+    accessibility,
+  };
+};
+
+/**
+ * Upgrades a stored payload (versioned envelope or legacy bare object) to the
+ * current schema and validates it.
+ */
+export const migrateSettings = (stored: unknown): UserSettings => {
+  const isEnvelope = !!stored && typeof stored === 'object'
+    && typeof (stored as StoredSettings).version === 'number'
+    && 'settings' in (stored as StoredSettings);
+
+  let version = isEnvelope ? (stored as StoredSettings).version : 0;
+  let raw = asRecord(isEnvelope ? (stored as StoredSettings).settings : stored);
+
+  // Settings written by a newer build: keep what we understand rather than discarding everything
+  if (version > SETTINGS_SCHEMA_VERSION) {
+    console.warn(`Settings schema v${version} is newer than supported v${SETTINGS_SCHEMA_VERSION}.`);
+    return sanitizeSettings(raw);
+  }
+
+  while (version < SETTINGS_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (migrate) raw = migrate(raw);
+    version++;
+  }
+
+  return sanitizeSettings(raw);
+};
+
+// --- Persistence ---
+
+/**
+ * Loads a profile's settings from localStorage. Missing or corrupt data yields `defaults`.
+ */
+export const loadSettings = (profileId: string = DEFAULT_PROFILE_ID, defaults: UserSettings = DEFAULT_SETTINGS): UserSettings => {
+  try {
+    const stored = localStorage.getItem(profileStorageKey(SETTINGS_STORAGE_KEY, profileId));
+    if (!stored) return defaults;
+    return migrateSettings(JSON.parse(stored));
+  } catch (e) {
+    console.error("Failed to load settings, using defaults", e);
+    return defaults;
+  }
+};
+
+/**
+ * Persists settings with the current schema version.
+ * Returns false if storage is unavailable or full.
+ */
+export const saveSettings = (settings: UserSettings, profileId: string = DEFAULT_PROFILE_ID): boolean => {
+  try {
+    const payload: StoredSettings = { version: SETTINGS_SCHEMA_VERSION, settings };
+    localStorage.setItem(profileStorageKey(SETTINGS_STORAGE_KEY, profileId), JSON.stringify(payload));
+    return true;
+  } catch (e) {
+    console.error("Failed to save settings", e);
+    return false;
+  }
+};
@@ -0,0 +1,241 @@
+import { SpeechEngine, SpeechEngineId, SpeechOptions, SpeechVoice, UserSettings } from '../types';
+import { geminiSpeechEngine } from './gemini';
+
+// --- Web Speech Engine ---
+
+const hasSpeechSynthesis = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Browsers populate voices asynchronously; wait briefly for the first list
+const loadBrowserVoices = (): Promise<SpeechSynthesisVoice[]> => new Promise(resolve => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) {
+    resolve(voices);
+    return;
+  }
+  const done = () => resolve(window.speechSynthesis.getVoices());
+  window.speechSynthesis.addEventListener('voiceschanged', done, { once: true });
+  setTimeout(done, 1000);
+});
+
+/**
+ * The browser's built-in speechSynthesis. Works offline with whatever voices the device provides.
+ */
+export const webSpeechEngine: SpeechEngine = {
+  id: 'webspeech',
+  label: 'Device',
+  isAvailable: hasSpeechSynthesis,
+  listVoices: async () => {
+    if (!hasSpeechSynthesis()) return [];
+    const voices = await loadBrowserVoices();
+    return voices.map(v => ({ id: v.voiceURI, label: v.name, description: v.lang }));
+  },
+  // Nothing to prepare: the device synthesises on demand
+  generate: async () => {},
+  speak: (text, voiceId, options) => new Promise((resolve, reject) => {
+    if (!hasSpeechSynthesis()) {
+      reject(new Error("Speech synthesis is not supported in this browser."));
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === voiceId);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    }
+    utterance.rate = options?.rate ?? 1;
+    utterance.volume = options?.volume ?? 1;
+    utterance.onend = () => resolve();
+    utterance.onerror = (e) => {
+      // Being cancelled or interrupted isn't a failure
+      if (e.error === 'canceled' || e.error === 'interrupted') resolve();
+      else reject(new Error(`Speech synthesis failed: ${e.error}`));
+    };
+    window.speechSynthesis.speak(utterance);
+  }),
+  cancel: () => {
+    if (hasSpeechSynthesis()) window.speechSynthesis.cancel();
+  },
+};
+
+// --- Mock Engine ---
+
+export interface MockSpeechEngine extends SpeechEngine {
+  spoken: { text: string; voiceId: string }[];
+}
+
+/**
+ * A silent engine that records what it was asked to say, for tests and demos.
+ * Each utterance "plays" for `durationMs`.
+ */
+export const createMockSpeechEngine = (durationMs = 0): MockSpeechEngine => {
+  let pending: (() => void)[] = [];
+  const engine: MockSpeechEngine = {
+    id: 'mock',
+    label: 'Silent (testing)',
+    spoken: [],
+    isAvailable: () => true,
+    listVoices: async (): Promise<SpeechVoice[]> => [{ id: 'mock', label: 'Mock Voice' }],
+    generate: async () => {},
+    speak: (text, voiceId) => new Promise(resolve => {
+      engine.spoken.push({ text, voiceId });
+      const finish = () => {
+        clearTimeout(timer);
+        pending = pending.filter(p => p !== finish);
+        resolve();
+      };
+      const timer = setTimeout(finish, durationMs);
+      pending.push(finish);
+    }),
+    cancel: () => pending.forEach(finish => finish()),
+  };
+  return engine;
+};
+
+// --- Registry ---
+
+const engines = new Map<SpeechEngineId, SpeechEngine>([
+  [geminiSpeechEngine.id, geminiSpeechEngine],
+  [webSpeechEngine.id, webSpeechEngine],
+]);
+
+/**
+ * Adds or replaces an engine (e.g. the mock engine in tests).
+ */
+export const registerSpeechEngine = (engine: SpeechEngine) => {
+  engines.set(engine.id, engine);
+};
+
+export const getSpeechEngine = (id: SpeechEngineId): SpeechEngine | undefined => engines.get(id);
+
+/**
+ * The voice the user picked for a given engine.
+ */
+export const getEngineVoice = (settings: UserSettings, engineId: SpeechEngineId): string => {
+  if (engineId === 'gemini') return settings.voiceName;
+  if (engineId === 'webspeech') return settings.webSpeechVoice;
+  return '';
+};
+
+/**
+ * Returns settings with the voice for `engineId` changed.
+ */
+export const withEngineVoice = (settings: UserSettings, engineId: SpeechEngineId, voiceId: string): UserSettings => {
+  if (engineId === 'gemini') return { ...settings, voiceName: voiceId };
+  if (engineId === 'webspeech') return { ...settings, webSpeechVoice: voiceId };
+  return settings;
+};
+
+// --- Speaking ---
+
+// Speaks with the user's primary engine, falling back to their backup engine
+const speakWithFallback = async (text: string, settings: UserSettings, options?: SpeechOptions): Promise<void> => {
+  const chain = [settings.speechEngine, settings.fallbackSpeechEngine]
+    .filter((id, index, ids): id is SpeechEngineId => id !== 'none' && ids.indexOf(id) === index);
+
+  let lastError: unknown = new Error("No speech engine is available.");
+  for (const id of chain) {
+    const engine = engines.get(id);
+    if (!engine?.isAvailable()) continue;
+    try {
+      await engine.speak(text, getEngineVoice(settings, id), options);
+      return;
+    } catch (error) {
+      console.warn(`${engine.label} speech failed`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+};
+
+// --- Playback Controller ---
+
+// 'interrupt' stops whatever is playing and speaks now; 'queue' speaks after everything already queued
+export type PlaybackMode = 'interrupt' | 'queue';
+export type PlaybackEvent = 'start' | 'end';
+
+interface QueuedUtterance {
+  text: string;
+  settings: UserSettings;
+  options?: SpeechOptions;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+let queue: QueuedUtterance[] = [];
+let current: QueuedUtterance | null = null;
+const listeners = new Set<(event: PlaybackEvent) => void>();
+
+const emit = (event: PlaybackEvent) => listeners.forEach(listener => listener(event));
+
+const playNext = async () => {
+  const item = queue.shift();
+  if (!item) {
+    current = null;
+    emit('end');
+    return;
+  }
+  if (!current) emit('start');
+  current = item;
+
+  try {
+    await speakWithFallback(item.text, item.settings, item.options);
+    item.resolve();
+  } catch (error) {
+    item.reject(error);
+  }
+
+  // Stopped (and possibly restarted) while this item was playing
+  if (current !== item) return;
+  playNext();
+};
+
+/**
+ * Subscribes to playback events: 'start' when speech begins after silence,
+ * 'end' once the queue is empty or playback is stopped. Returns an unsubscribe function.
+ */
+export const onPlaybackChange = (listener: (event: PlaybackEvent) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const isPlaybackActive = () => current !== null;
+
+/**
+ * Speaks text, resolving when it has finished playing (or was stopped) and
+ * rejecting if no engine could speak it.
+ */
+export const speak = (text: string, settings: UserSettings, mode: PlaybackMode = 'interrupt', options?: SpeechOptions): Promise<void> => {
+  if (mode === 'interrupt') stopSpeech();
+  return new Promise((resolve, reject) => {
+    queue.push({ text, settings, options, resolve, reject });
+    if (!current) playNext();
+  });
+};
+
+/**
+ * Stops the current utterance and drops everything queued.
+ */
+export const stopSpeech = () => {
+  const dropped = queue;
+  const wasPlaying = current !== null;
+  queue = [];
+  current = null;
+  engines.forEach(engine => engine.cancel());
+  dropped.forEach(item => item.resolve());
+  if (wasPlaying) emit('end');
+};
+
+/**
+ * Auditory feedback when a tile is added to the sentence, following the user's
+ * `selectionFeedback` setting. `sentenceText` includes the newly added word.
+ */
+export const speakSelectionFeedback = (wordText: string, sentenceText: string, settings: UserSettings) => {
+  const { selectionFeedback, feedbackVoiceName, feedbackVolume } = settings.accessibility;
+  if (selectionFeedback === 'silent') return;
+
+  const feedbackSettings = feedbackVoiceName ? { ...settings, voiceName: feedbackVoiceName } : settings;
+  // Each word is queued so every selection is heard; a new sentence replaces the previous one
+  const [text, mode]: [string, PlaybackMode] = selectionFeedback === 'word' ? [wordText, 'queue'] : [sentenceText, 'interrupt'];
+  speak(text, feedbackSettings, mode, { volume: feedbackVolume })
+    .catch(e => console.warn("Selection feedback failed", e));
+};
@@ -0,0 +1,299 @@
+import { dataUrlToBytes, bytesToDataUrl } from './files';
+
+// --- IndexedDB Storage ---
+//
+// Large, growing data (saved phrases, pinned tiles, board customisations) lives in
+// IndexedDB rather than localStorage, whose ~5MB limit is quickly exhausted by
+// tile pictures. Records hold the JSON metadata; pictures are pulled out into a
+// separate object store as Blobs and referenced by content hash.
+// Small values needed before first render (settings, the profile list) stay in localStorage.
+
+const DB_NAME = 'voicebridge';
+const DB_VERSION = 2;
+const RECORD_STORE = 'records';
+const IMAGE_STORE = 'images';
+// Generated speech (see audioCache.ts): raw PCM keyed by voice + text, with a small metadata store for size reporting
+export const AUDIO_STORE = 'audio';
+export const AUDIO_META_STORE = 'audio-meta';
+
+// Stored in place of a tile's `imageUrl` data URL; resolved back on load
+const IMAGE_KEY = 'imageUrl';
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+export interface StorageEstimate {
+  usage: number;   // Bytes used by this origin
+  quota: number;   // Bytes available to this origin
+  persisted: boolean; // Whether the browser has promised not to evict our data
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORD_STORE)) db.createObjectStore(RECORD_STORE);
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+        if (!db.objectStoreNames.contains(AUDIO_META_STORE)) {
+          db.createObjectStore(AUDIO_META_STORE).createIndex('voice', 'voice');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+/**
+ * True when an error was caused by the browser's storage quota being exceeded.
+ */
+export const isQuotaError = (e: unknown): boolean => {
+  return e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+};
+
+// --- Image Extraction ---
+
+const hashString = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Replaces every `imageUrl` data URL in a value with a reference, collecting the blobs to store
+const extractImages = async (value: unknown): Promise<{ json: string; images: Map<string, Blob> }> => {
+  const dataUrls = new Set<string>();
+  JSON.stringify(value, (key, v) => {
+    if (key === IMAGE_KEY && typeof v === 'string' && v.startsWith('data:')) dataUrls.add(v);
+    return v;
+  });
+
+  const refs = new Map<string, string>();
+  const images = new Map<string, Blob>();
+  for (const dataUrl of dataUrls) {
+    const decoded = dataUrlToBytes(dataUrl);
+    if (!decoded) continue;
+    const id = await hashString(dataUrl);
+    refs.set(dataUrl, `${IMAGE_REF_PREFIX}${id}`);
+    images.set(id, new Blob([decoded.bytes], { type: decoded.mimeType }));
+  }
+
+  const json = JSON.stringify(value, (key, v) => (key === IMAGE_KEY && refs.has(v) ? refs.get(v) : v));
+  return { json, images };
+};
+
+const blobToDataUrl = async (blob: Blob): Promise<string> => {
+  return bytesToDataUrl(new Uint8Array(await blob.arrayBuffer()), blob.type || 'image/png');
+};
+
+// Collects the image ids a stored record refers to
+const findImageRefs = (json: string): string[] => {
+  const ids: string[] = [];
+  JSON.parse(json, (key, v) => {
+    if (key === IMAGE_KEY && typeof v === 'string' && v.startsWith(IMAGE_REF_PREFIX)) ids.push(v.slice(IMAGE_REF_PREFIX.length));
+    return v;
+  });
+  return ids;
+};
+
+// --- Records ---
+
+/**
+ * Reads a record, restoring any pictures as data URLs. Resolves to undefined when
+ * the key has never been written.
+ */
+export const getRecord = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction([RECORD_STORE, IMAGE_STORE], 'readonly');
+  const json = await promisify<string | undefined>(tx.objectStore(RECORD_STORE).get(key));
+  if (json === undefined) return undefined;
+
+  const images = new Map<string, string>();
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  const blobs = await Promise.all(findImageRefs(json).map(id => promisify<Blob | undefined>(imageStore.get(id)).then(blob => [id, blob] as const)));
+  for (const [id, blob] of blobs) {
+    if (blob) images.set(id, await blobToDataUrl(blob));
+  }
+
+  return JSON.parse(json, (field, v) => {
+    if (field !== IMAGE_KEY || typeof v !== 'string' || !v.startsWith(IMAGE_REF_PREFIX)) return v;
+    // A missing picture is dropped rather than leaving a broken reference on the tile
+    const dataUrl = images.get(v.slice(IMAGE_REF_PREFIX.length));
+    if (dataUrl === undefined) console.warn(`A picture in ${key} is missing from storage`);
+    return dataUrl;
+  }) as T;
+};
+
+/**
+ * Writes a record, storing its pictures as separate blobs.
+ * Throws on failure; use `isQuotaError` to detect a full disk.
+ */
+export const setRecord = async (key: string, value: unknown): Promise<void> => {
+  const { json, images } = await extractImages(value);
+  const db = await openDatabase();
+  const tx = db.transaction([RECORD_STORE, IMAGE_STORE], 'readwrite');
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  images.forEach((blob, id) => imageStore.put(blob, id));
+  tx.objectStore(RECORD_STORE).put(json, key);
+  await transactionDone(tx);
+};
+
+export const deleteRecord = async (key: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORD_STORE, 'readwrite');
+  tx.objectStore(RECORD_STORE).delete(key);
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes pictures no longer referenced by any record (e.g. after a tile's
+ * picture was replaced or a profile was removed).
+ */
+export const pruneUnusedImages = async (): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([RECORD_STORE, IMAGE_STORE], 'readwrite');
+    const records = await promisify<string[]>(tx.objectStore(RECORD_STORE).getAll());
+    const used = new Set(records.flatMap(findImageRefs));
+    const imageStore = tx.objectStore(IMAGE_STORE);
+    const ids = await promisify<IDBValidKey[]>(imageStore.getAllKeys());
+    ids.forEach(id => { if (!used.has(String(id))) imageStore.delete(id); });
+    await transactionDone(tx);
+  } catch (e) {
+    console.error("Failed to prune unused images", e);
+  }
+};
+
+// --- Migration from localStorage ---
+
+/**
+ * Reads a record, moving it over from localStorage the first time it's requested.
+ * `parse` validates the value in either location.
+ */
+export const loadMigratedRecord = async <T>(key: string, parse: (raw: unknown) => T, fallback: T): Promise<T> => {
+  try {
+    const stored = await getRecord<unknown>(key);
+    if (stored !== undefined) return parse(stored);
+
+    const legacy = localStorage.getItem(key);
+    if (legacy === null) return fallback;
+    const value = parse(JSON.parse(legacy));
+    await setRecord(key, value);
+    localStorage.removeItem(key);
+    return value;
+  } catch (e) {
+    console.error(`Failed to load ${key}`, e);
+    return fallback;
+  }
+};
+
+const writeRecord = async (key: string, value: unknown): Promise<boolean> => {
+  try {
+    await setRecord(key, value);
+    return true;
+  } catch (e) {
+    console.error(isQuotaError(e) ? `Storage quota exceeded saving ${key}` : `Failed to save ${key}`, e);
+    return false;
+  }
+};
+
+interface PendingWrite {
+  value: unknown;
+  callbacks: ((ok: boolean) => void)[];
+}
+
+// Per key: the value waiting for the write in progress to finish. Only the newest is kept.
+const pendingWrites = new Map<string, PendingWrite>();
+const activeWrites = new Set<string>();
+
+const flushWrites = async (key: string) => {
+  activeWrites.add(key);
+  let next: PendingWrite | undefined;
+  while ((next = pendingWrites.get(key))) {
+    pendingWrites.delete(key);
+    const ok = await writeRecord(key, next.value);
+    next.callbacks.forEach(callback => callback(ok));
+  }
+  activeWrites.delete(key);
+};
+
+/**
+ * Writes a record. Resolves to false (after logging) if storage is unavailable or full.
+ * Writes to the same key happen one at a time, so an older value can never land
+ * after a newer one; values superseded while waiting are skipped and resolve
+ * with the result of the write that replaced them.
+ */
+export const saveRecord = (key: string, value: unknown): Promise<boolean> => new Promise((resolve) => {
+  const pending = pendingWrites.get(key);
+  if (pending) {
+    pending.value = value;
+    pending.callbacks.push(resolve);
+  } else {
+    pendingWrites.set(key, { value, callbacks: [resolve] });
+  }
+  if (!activeWrites.has(key)) flushWrites(key);
+});
+
+// --- Quota ---
+
+/**
+ * Reports how much storage the app is using and how much the browser allows.
+ * Resolves to null where the Storage API isn't supported.
+ */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return { usage, quota, persisted };
+  } catch (e) {
+    console.error("Failed to estimate storage", e);
+    return null;
+  }
+};
+
+/**
+ * Asks the browser not to evict our data under storage pressure.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  try {
+    return await navigator.storage.persist();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * True when usage is close enough to the quota that a failed write is most likely
+ * because storage is full.
+ */
+export const isStorageNearlyFull = (estimate: StorageEstimate | null): boolean => {
+  return !!estimate && estimate.quota > 0 && estimate.usage / estimate.quota > 0.9;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TileData, VocabularyOverlay } from '../types';
+import { EMPTY_OVERLAY, arrangeGrid, moveTileToCell, placeTile, setBoardLayout } from './vocabulary';
+
+const tile = (id: string): TileData => ({ id, label: id, emoji: '', color: '', category: 'General' });
+
+const tiles = ['a', 'b', 'c', 'd'].map(tile);
+// A 2 × 2 grid: a b / c d
+const gridOverlay = (): VocabularyOverlay => setBoardLayout(EMPTY_OVERLAY, 'General', tiles, { rows: 2, columns: 2 });
+const positions = (overlay: VocabularyOverlay) => overlay.layouts.General.positions;
+// The board as rendered: each tile carries its cell from the layout
+const onBoard = (overlay: VocabularyOverlay, list: TileData[]) => list.map(t => ({ ...t, position: positions(overlay)[t.id] }));
+
+test('a new fixed grid pins every tile in reading order', () => {
+  assert.deepEqual(positions(gridOverlay()), {
+    a: { row: 0, column: 0 }, b: { row: 0, column: 1 }, c: { row: 1, column: 0 }, d: { row: 1, column: 1 },
+  });
+});
+
+test('moveTileToCell swaps with the tile already in the cell', () => {
+  const moved = positions(moveTileToCell(gridOverlay(), 'General', tiles, 'a', { row: 1, column: 1 }));
+  assert.deepEqual(moved.a, { row: 1, column: 1 });
+  assert.deepEqual(moved.d, { row: 0, column: 0 });
+  assert.deepEqual(moved.b, { row: 0, column: 1 });
+});
+
+test('moveTileToCell leaves boards without a grid and unknown tiles alone', () => {
+  assert.equal(moveTileToCell(EMPTY_OVERLAY, 'General', tiles, 'a', { row: 1, column: 1 }), EMPTY_OVERLAY);
+  const overlay = gridOverlay();
+  assert.equal(moveTileToCell(overlay, 'General', tiles, 'zzz', { row: 1, column: 1 }), overlay);
+});
+
+test('placeTile uses the requested cell when it is free', () => {
+  const overlay = setBoardLayout(EMPTY_OVERLAY, 'General', tiles.slice(0, 3), { rows: 2, columns: 2 });
+  const placed = positions(placeTile(overlay, 'General', onBoard(overlay, tiles.slice(0, 3)), tile('e'), { row: 1, column: 1 }));
+  assert.deepEqual(placed.e, { row: 1, column: 1 });
+  assert.deepEqual(placed.a, { row: 0, column: 0 });
+});
+
+test('placeTile falls back to the first empty cell without moving anyone', () => {
+  const overlay = setBoardLayout(EMPTY_OVERLAY, 'General', tiles.slice(0, 3), { rows: 2, columns: 2 });
+  const placed = positions(placeTile(overlay, 'General', onBoard(overlay, tiles.slice(0, 3)), tile('e'), { row: 0, column: 0 }));
+  assert.deepEqual(placed.e, { row: 1, column: 1 });
+  assert.deepEqual(placed.a, { row: 0, column: 0 });
+  assert.deepEqual(placed.c, { row: 1, column: 0 });
+});
+
+test('a full grid grows a row rather than moving tiles', () => {
+  const { rows, placements } = arrangeGrid([...onBoard(gridOverlay(), tiles), tile('e')], { rows: 2, columns: 2, positions: {} });
+  assert.equal(rows, 3);
+  assert.deepEqual(placements.find(p => p.tile.id === 'e')?.position, { row: 2, column: 0 });
+});
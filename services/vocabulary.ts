@@ -0,0 +1,430 @@
+import { TileData, Vocabulary, VocabularyOverlay, BoardDefinition, BoardLayout, GridPosition, TileVisibility } from '../types';
+import { VOCABULARY_STORAGE_KEY, DEFAULT_PROFILE_ID, profileStorageKey } from '../constants';
+import { loadMigratedRecord, saveRecord } from './storage';
+
+// --- Overlay Model ---
+
+// 2: user boards, tile order and folder links (`linkTo`) on tiles
+export const VOCABULARY_OVERLAY_VERSION = 2;
+
+// Version 1 overlays stored edited built-in folder tiles without their link
+const LEGACY_FOLDER_LINKS: Record<string, string> = {
+  folder_connectors: 'Connectors',
+  folder_responses: 'Responses',
+  folder_greetings: 'Greetings',
+  folder_phrases: 'Phrases',
+};
+
+export const EMPTY_OVERLAY: VocabularyOverlay = {
+  version: VOCABULARY_OVERLAY_VERSION,
+  boards: [],
+  tiles: {},
+  deletedIds: [],
+  order: {},
+  layouts: {},
+};
+
+/**
+ * Merges the user's overlay onto the built-in vocabulary.
+ * Navigation tiles (Back buttons) are shared across categories and are never overridden.
+ */
+export const applyOverlay = (base: Vocabulary, overlay: VocabularyOverlay): Vocabulary => {
+  const deleted = new Set(overlay.deletedIds);
+  const seen = new Set<string>();
+  const result: Vocabulary = {};
+
+  const push = (tile: TileData) => {
+    if (!result[tile.category]) result[tile.category] = [];
+    result[tile.category].push(tile);
+  };
+
+  // 1. Built-in tiles, with edits applied (an edit may move a tile to another category)
+  Object.values(base).forEach(categoryTiles => {
+    categoryTiles.forEach(tile => {
+      if (tile.isNavigation) {
+        push(tile);
+        return;
+      }
+      seen.add(tile.id);
+      if (deleted.has(tile.id)) return;
+      push(overlay.tiles[tile.id] || tile);
+    });
+  });
+
+  // 2. Tiles created by the user
+  Object.values(overlay.tiles).forEach(tile => {
+    if (!seen.has(tile.id) && !deleted.has(tile.id)) push(tile);
+  });
+
+  // 3. Explicit ordering. Tiles missing from the saved order keep their relative position at the end.
+  Object.entries(overlay.order).forEach(([category, ids]) => {
+    const tiles = result[category];
+    if (!tiles) return;
+    const rank = new Map(ids.map((id, index) => [id, index]));
+    result[category] = tiles
+      .map((tile, index) => ({ tile, index }))
+      .sort((a, b) => {
+        const rankA = rank.get(a.tile.id) ?? ids.length + a.index;
+        const rankB = rank.get(b.tile.id) ?? ids.length + b.index;
+        return rankA - rankB;
+      })
+      .map(entry => entry.tile);
+  });
+
+  // 4. Cell positions on fixed-grid boards
+  Object.entries(overlay.layouts).forEach(([category, layout]) => {
+    const tiles = result[category];
+    if (!tiles) return;
+    result[category] = tiles.map(tile => ({ ...tile, position: layout.positions[tile.id] }));
+  });
+
+  return result;
+};
+
+// --- Overlay Mutations (pure, return a new overlay) ---
+
+/**
+ * Adds a new tile or replaces an existing one (built-in or custom).
+ */
+export const upsertTile = (overlay: VocabularyOverlay, tile: TileData): VocabularyOverlay => ({
+  ...overlay,
+  tiles: { ...overlay.tiles, [tile.id]: tile },
+  deletedIds: overlay.deletedIds.filter(id => id !== tile.id),
+});
+
+/**
+ * Removes a tile. Custom tiles are dropped entirely; built-in tiles are tombstoned
+ * so that they stay hidden.
+ */
+export const deleteTile = (overlay: VocabularyOverlay, id: string, isBuiltIn: boolean): VocabularyOverlay => {
+  const { [id]: _removed, ...tiles } = overlay.tiles;
+  return {
+    ...overlay,
+    tiles,
+    deletedIds: isBuiltIn && !overlay.deletedIds.includes(id) ? [...overlay.deletedIds, id] : overlay.deletedIds,
+  };
+};
+
+/**
+ * Moves `fromId` to the position currently held by `toId` within a category.
+ * `currentIds` is the category's order as currently rendered.
+ */
+export const reorderTile = (
+  overlay: VocabularyOverlay,
+  category: string,
+  currentIds: string[],
+  fromId: string,
+  toId: string
+): VocabularyOverlay => {
+  const fromIndex = currentIds.indexOf(fromId);
+  const toIndex = currentIds.indexOf(toId);
+  if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) return overlay;
+
+  const ids = [...currentIds];
+  ids.splice(fromIndex, 1);
+  ids.splice(toIndex, 0, fromId);
+  return { ...overlay, order: { ...overlay.order, [category]: ids } };
+};
+
+// --- Boards ---
+
+/**
+ * Lists every board a tile can live on or link to: built-in categories first, then user boards.
+ */
+export const listBoards = (base: Vocabulary, overlay: VocabularyOverlay): { id: string; label: string }[] => [
+  ...Object.keys(base).map(id => ({ id, label: id })),
+  ...overlay.boards.map(board => ({ id: board.id, label: board.label })),
+];
+
+/**
+ * Human-readable name for a board id (user boards have their own label).
+ */
+export const getBoardLabel = (overlay: VocabularyOverlay, id: string): string => {
+  return overlay.boards.find(board => board.id === id)?.label || id;
+};
+
+/**
+ * Adds a user board together with a Back tile so it can be left without the breadcrumb.
+ */
+export const addBoard = (overlay: VocabularyOverlay, board: BoardDefinition): VocabularyOverlay => {
+  const backTile: TileData = {
+    id: `back-${board.id}`,
+    label: 'Go Back',
+    emoji: '🔙',
+    color: 'bg-slate-200 border-slate-300',
+    category: board.id,
+    isNavigation: true,
+  };
+  return {
+    ...overlay,
+    boards: [...overlay.boards, board],
+    tiles: { ...overlay.tiles, [backTile.id]: backTile },
+  };
+};
+
+export const updateBoard = (overlay: VocabularyOverlay, board: BoardDefinition): VocabularyOverlay => ({
+  ...overlay,
+  boards: overlay.boards.map(b => (b.id === board.id ? board : b)),
+});
+
+/**
+ * Removes a user board and the tiles on it. Built-in tiles moved onto it go back to
+ * their original boards (see `movedBuiltInTiles`); folder tiles pointing at it become plain tiles.
+ */
+export const deleteBoard = (overlay: VocabularyOverlay, id: string): VocabularyOverlay => {
+  const tiles: Record<string, TileData> = {};
+  Object.values(overlay.tiles).forEach(tile => {
+    if (tile.category === id) return;
+    if (tile.linkTo === id) {
+      const { linkTo: _linkTo, ...plainTile } = tile;
+      tiles[tile.id] = plainTile;
+      return;
+    }
+    tiles[tile.id] = tile;
+  });
+  const { [id]: _order, ...order } = overlay.order;
+  const { [id]: _layout, ...layouts } = overlay.layouts;
+  return {
+    ...overlay,
+    boards: overlay.boards.filter(b => b.id !== id),
+    tiles,
+    order,
+    layouts,
+  };
+};
+
+// --- Fixed Grids ---
+
+export const MAX_GRID_SIZE = 12;
+
+export interface GridPlacement {
+  tile: TileData;
+  position: GridPosition;
+}
+
+const cellKey = (position: GridPosition) => `${position.row}:${position.column}`;
+
+/**
+ * Places a board's tiles on a fixed grid. Tiles with a free, in-range position
+ * keep it; the rest fill the first empty cells in reading order. If the grid is
+ * full, extra rows are added below rather than moving anyone.
+ */
+export const arrangeGrid = (tiles: TileData[], layout: BoardLayout): { rows: number; placements: GridPlacement[] } => {
+  const taken = new Set<string>();
+  const placements: GridPlacement[] = [];
+  const unplaced: TileData[] = [];
+
+  tiles.forEach(tile => {
+    const position = tile.position;
+    if (position && position.row < layout.rows && position.column < layout.columns && !taken.has(cellKey(position))) {
+      taken.add(cellKey(position));
+      placements.push({ tile, position });
+    } else {
+      unplaced.push(tile);
+    }
+  });
+
+  let cell = 0;
+  unplaced.forEach(tile => {
+    let position: GridPosition;
+    do {
+      position = { row: Math.floor(cell / layout.columns), column: cell % layout.columns };
+      cell++;
+    } while (taken.has(cellKey(position)));
+    taken.add(cellKey(position));
+    placements.push({ tile, position });
+  });
+
+  const rows = Math.max(layout.rows, ...placements.map(p => p.position.row + 1));
+  return { rows, placements };
+};
+
+// Records where every tile currently sits, so later additions and removals don't shift anything
+const pinPositions = (tiles: TileData[], layout: BoardLayout): BoardLayout => {
+  const positions: Record<string, GridPosition> = {};
+  arrangeGrid(tiles, layout).placements.forEach(({ tile, position }) => { positions[tile.id] = position; });
+  return { ...layout, positions };
+};
+
+/**
+ * Switches a board to a fixed rows × columns grid (or back to the responsive
+ * layout with null). `tiles` is the board as currently rendered.
+ */
+export const setBoardLayout = (
+  overlay: VocabularyOverlay,
+  boardId: string,
+  tiles: TileData[],
+  size: { rows: number; columns: number } | null
+): VocabularyOverlay => {
+  const { [boardId]: current, ...others } = overlay.layouts;
+  if (!size) return { ...overlay, layouts: others };
+  const layout: BoardLayout = { rows: size.rows, columns: size.columns, positions: current?.positions || {} };
+  return { ...overlay, layouts: { ...others, [boardId]: pinPositions(tiles, layout) } };
+};
+
+/**
+ * Moves a tile to a cell on a fixed-grid board, swapping with whatever is there.
+ */
+export const moveTileToCell = (
+  overlay: VocabularyOverlay,
+  boardId: string,
+  tiles: TileData[],
+  tileId: string,
+  target: GridPosition
+): VocabularyOverlay => {
+  const current = overlay.layouts[boardId];
+  if (!current) return overlay;
+  const layout = pinPositions(tiles, current);
+  const from = layout.positions[tileId];
+  if (!from) return overlay;
+  const positions = { ...layout.positions, [tileId]: target };
+  const occupant = Object.keys(layout.positions).find(id => id !== tileId && cellKey(layout.positions[id]) === cellKey(target));
+  if (occupant) positions[occupant] = from;
+  return { ...overlay, layouts: { ...overlay.layouts, [boardId]: { ...layout, positions } } };
+};
+
+/**
+ * Gives a newly added or moved tile a lasting cell on a fixed-grid board:
+ * `position` if it is free, otherwise the first empty one.
+ */
+export const placeTile = (
+  overlay: VocabularyOverlay,
+  boardId: string,
+  tiles: TileData[],
+  tile: TileData,
+  position?: GridPosition
+): VocabularyOverlay => {
+  const current = overlay.layouts[boardId];
+  if (!current) return overlay;
+  const others = tiles.filter(t => t.id !== tile.id);
+  const layout = pinPositions([...others, { ...tile, position: position || current.positions[tile.id] }], current);
+  return { ...overlay, layouts: { ...overlay.layouts, [boardId]: layout } };
+};
+
+// --- Visibility & Vocabulary Levels ---
+
+/**
+ * True if the tile belongs to a vocabulary level above the unlocked one.
+ * Level 0 unlocks everything.
+ */
+export const isTileLocked = (tile: TileData, vocabularyLevel: number): boolean => {
+  return vocabularyLevel > 0 && !!tile.level && tile.level > vocabularyLevel;
+};
+
+/**
+ * How a tile should appear on the board. An explicit visibility set on the tile
+ * wins over "disabled"; locked tiles otherwise follow the profile's preference.
+ */
+export const getTileVisibility = (
+  tile: TileData,
+  vocabularyLevel: number,
+  lockedTiles: Exclude<TileVisibility, 'visible'>
+): TileVisibility => {
+  const own = tile.visibility || 'visible';
+  if (own === 'hidden' || !isTileLocked(tile, vocabularyLevel)) return own;
+  return lockedTiles;
+};
+
+/**
+ * Resolves every tile's effective visibility for the current vocabulary level.
+ * Tiles keep their order and grid positions, so unlocking words never moves the rest.
+ */
+export const resolveVisibility = (
+  vocabulary: Vocabulary,
+  vocabularyLevel: number,
+  lockedTiles: Exclude<TileVisibility, 'visible'>
+): Vocabulary => {
+  const resolved: Vocabulary = {};
+  Object.entries(vocabulary).forEach(([boardId, tiles]) => {
+    resolved[boardId] = tiles.map(tile => {
+      const visibility = getTileVisibility(tile, vocabularyLevel, lockedTiles);
+      return visibility === (tile.visibility || 'visible') ? tile : { ...tile, visibility };
+    });
+  });
+  return resolved;
+};
+
+/**
+ * Built-in tiles the user moved onto a board, which return to their original
+ * boards if it is deleted.
+ */
+export const movedBuiltInTiles = (base: Vocabulary, overlay: VocabularyOverlay, boardId: string): TileData[] => (
+  Object.values(overlay.tiles).filter(tile => tile.category === boardId && isBuiltInTile(base, tile.id))
+);
+
+/**
+ * True if the id belongs to a tile shipped with the app.
+ */
+export const isBuiltInTile = (base: Vocabulary, id: string): boolean => {
+  return Object.values(base).some(tiles => tiles.some(tile => tile.id === id));
+};
+
+// --- Persistence ---
+
+const isGridIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const sanitizeLayouts = (raw: any): Record<string, BoardLayout> => {
+  const layouts: Record<string, BoardLayout> = {};
+  if (!raw || typeof raw !== 'object') return layouts;
+  Object.entries(raw).forEach(([boardId, layout]: [string, any]) => {
+    if (!layout || !isGridIndex(layout.rows) || !isGridIndex(layout.columns) || layout.rows < 1 || layout.columns < 1) return;
+    const positions: Record<string, GridPosition> = {};
+    Object.entries(layout.positions && typeof layout.positions === 'object' ? layout.positions : {})
+      .forEach(([tileId, position]: [string, any]) => {
+        if (position && isGridIndex(position.row) && isGridIndex(position.column)) {
+          positions[tileId] = { row: position.row, column: position.column };
+        }
+      });
+    layouts[boardId] = {
+      rows: Math.min(layout.rows, MAX_GRID_SIZE),
+      columns: Math.min(layout.columns, MAX_GRID_SIZE),
+      positions,
+    };
+  });
+  return layouts;
+};
+
+/**
+ * Coerces stored or imported data into a valid overlay, dropping malformed entries.
+ */
+export const sanitizeOverlay = (raw: any): VocabularyOverlay => {
+  if (!raw || typeof raw !== 'object') return EMPTY_OVERLAY;
+  const version = typeof raw.version === 'number' ? raw.version : 1;
+  const tiles: Record<string, TileData> = {};
+  if (raw.tiles && typeof raw.tiles === 'object') {
+    Object.values(raw.tiles).forEach((tile: any) => {
+      if (tile && typeof tile.id === 'string' && typeof tile.label === 'string' && typeof tile.category === 'string') {
+        const legacyLink = version < 2 && !tile.linkTo ? LEGACY_FOLDER_LINKS[tile.id] : undefined;
+        tiles[tile.id] = legacyLink ? { ...tile, linkTo: legacyLink } : tile;
+      }
+    });
+  }
+  const boards: BoardDefinition[] = Array.isArray(raw.boards)
+    ? raw.boards
+        .filter((b: any) => b && typeof b.id === 'string' && typeof b.label === 'string')
+        .map((b: any) => ({ id: b.id, label: b.label, emoji: typeof b.emoji === 'string' ? b.emoji : '📁', showInSidebar: !!b.showInSidebar }))
+    : [];
+  return {
+    version: VOCABULARY_OVERLAY_VERSION,
+    boards,
+    tiles,
+    deletedIds: Array.isArray(raw.deletedIds) ? raw.deletedIds.filter((id: unknown) => typeof id === 'string') : [],
+    order: raw.order && typeof raw.order === 'object' ? raw.order : {},
+    layouts: sanitizeLayouts(raw.layouts),
+  };
+};
+
+/**
+ * Loads the user's vocabulary customisations, moving them out of localStorage on
+ * first run. Corrupt data yields an empty overlay.
+ */
+export const loadVocabularyOverlay = (profileId: string = DEFAULT_PROFILE_ID): Promise<VocabularyOverlay> => {
+  return loadMigratedRecord(profileStorageKey(VOCABULARY_STORAGE_KEY, profileId), sanitizeOverlay, EMPTY_OVERLAY);
+};
+
+/**
+ * Persists the overlay. Resolves to false if storage is unavailable or full.
+ */
+export const saveVocabularyOverlay = (overlay: VocabularyOverlay, profileId: string = DEFAULT_PROFILE_ID): Promise<boolean> => {
+  return saveRecord(profileStorageKey(VOCABULARY_STORAGE_KEY, profileId), overlay);
+};
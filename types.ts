@@ -1,5 +1,8 @@
 
-export type Category = 'General' | 'Needs' | 'Feelings' | 'People' | 'Places' | 'Actions' | 'Connectors' | 'Phrases' | 'Greetings' | 'Responses' | 'Keyboard' | 'Saved' | 'Settings';
+export type BuiltInCategory = 'General' | 'Needs' | 'Feelings' | 'People' | 'Places' | 'Actions' | 'Connectors' | 'Phrases' | 'Greetings' | 'Responses' | 'Keyboard' | 'Saved' | 'Scene' | 'Settings';
+
+// Built-in categories plus ids of user-created boards
+export type Category = BuiltInCategory | (string & {});
 
 export interface TileData {
   id: string;
@@ -10,25 +13,227 @@ export interface TileData {
   textToSpeak?: string; // Optional override for TTS
   isNavigation?: boolean; // Optional flag for navigation tiles (Back buttons)
   imageUrl?: string; // Optional generated image URL
+  linkTo?: string; // Optional board id opened when tapped (folder tiles)
+  position?: GridPosition; // Cell on a fixed-grid board (filled in from the board's layout)
+  visibility?: TileVisibility; // Defaults to 'visible'
+  level?: number; // Vocabulary level that unlocks this tile (unset = always available)
+}
+
+// Hidden and disabled (greyed out, not selectable) tiles keep their place so nothing else moves
+export type TileVisibility = 'visible' | 'hidden' | 'disabled';
+
+// Zero-based cell in a fixed grid
+export interface GridPosition {
+  row: number;
+  column: number;
+}
+
+// A fixed rows × columns grid. Tiles keep their cell at every screen size; the grid scales instead of reflowing.
+export interface BoardLayout {
+  rows: number;
+  columns: number;
+  positions: Record<string, GridPosition>; // Tile id -> cell
 }
 
 export interface Vocabulary {
   [key: string]: TileData[];
 }
 
+// A user-created board (category) that folder tiles can link to
+export interface BoardDefinition {
+  id: string;
+  label: string;
+  emoji: string;
+  showInSidebar: boolean; // Top-level category, or only reachable through folders
+}
+
+// User customisations layered on top of the built-in VOCABULARY
+export interface VocabularyOverlay {
+  version: number;
+  boards: BoardDefinition[]; // User-created boards
+  tiles: Record<string, TileData>; // Added or edited tiles, keyed by id
+  deletedIds: string[]; // Built-in tiles the user removed
+  order: Record<string, string[]>; // Explicit tile order per category
+  layouts: Record<string, BoardLayout>; // Fixed grids per board; boards without one reflow to fit the screen
+}
+
+// How switch scanning steps through the screen: item by item, row then item, or region then row then item
+export type ScanMethod = 'linear' | 'row-column' | 'group';
+
+// How dwell progress is drawn over the button being dwelled on
+export type DwellIndicatorStyle = 'ring' | 'fill' | 'bar';
+
 export interface AccessibilitySettings {
-  mode: 'standard' | 'dwell'; // Standard click or Dwell (hover)
+  mode: 'standard' | 'dwell' | 'scan'; // Standard click, Dwell (hover) or Switch scanning
   dwellTime: number; // ms to trigger dwell click
+  dwellCooldown: number; // ms after a dwell click before the next dwell can start
+  dwellIndicator: DwellIndicatorStyle;
   highContrast: boolean; // Yellow on Black theme
   speakOnHover: boolean; // Announce label on hover
   gridGap: number; // Extra spacing between tiles (px)
   clickHoldTime: number; // ms to hold before click registers (Anti-tremor)
+  touchRepeatDelay: number; // ms after a selection during which further touches are ignored
+  touchSelectOn: 'press' | 'release'; // Select as soon as a button is touched, or when the finger lifts
+  touchDragTarget: 'first' | 'last'; // Which button counts when a touch slides across several
+  touchIgnoreMultiFinger: boolean; // Ignore touches made with more than one finger (e.g. a resting palm)
+  selectionFeedback: 'silent' | 'word' | 'sentence'; // Speak when a tile is added to the sentence
+  feedbackVoiceName: string; // Gemini voice for selection feedback ('' = same as speaking voice)
+  feedbackVolume: number; // 0.1 - 1, so feedback can be quieter than full speech
+  scanMethod: ScanMethod;
+  scanInput: 'auto' | 'step'; // One switch with automatic advance, or two switches (Space moves, Enter selects)
+  scanRate: number; // ms each highlight stays before auto-advancing
+  scanLoops: number; // Passes over a level without a selection before backing out / pausing
+  scanAudioCues: boolean; // Speak each highlighted item
 }
 
+// Keyboard / switch-interface shortcuts
+export type HotkeyAction = 'speak' | 'clear' | 'backspace' | 'alarm' | 'nextCategory' | 'previousCategory';
+export type HotkeyBindings = Record<HotkeyAction, string>; // Key combo such as "Alt+KeyS"; '' = unbound
+
 export interface UserSettings {
   tileSize: number; // Height in pixels
   textSize: number; // Font size in pixels
   voiceName: string; // Gemini TTS Voice Name
+  speechEngine: SpeechEngineId; // Engine used to speak
+  fallbackSpeechEngine: SpeechEngineId | 'none'; // Tried when the primary engine fails
+  webSpeechVoice: string; // Device voice URI for the Web Speech engine ('' = browser default)
   sidebarPosition: 'left' | 'right'; // Screen side for navigation
+  vocabularyLevel: number; // Highest unlocked vocabulary level (0 = all words)
+  lockedTiles: Exclude<TileVisibility, 'visible'>; // How tiles above the level are shown
+  hotkeys: HotkeyBindings;
   accessibility: AccessibilitySettings;
 }
+
+// --- Speech Engines ---
+
+export type SpeechEngineId = 'gemini' | 'webspeech' | 'mock';
+
+export interface SpeechVoice {
+  id: string;
+  label: string;
+  description?: string;
+}
+
+export interface SpeechOptions {
+  rate?: number; // 1 = normal speed
+  volume?: number; // 0 - 1
+}
+
+export interface SpeechEngine {
+  id: SpeechEngineId;
+  label: string;
+  isAvailable: () => boolean;
+  listVoices: () => Promise<SpeechVoice[]>;
+  // Prepares audio ahead of time (e.g. fills a cache) without playing it
+  generate: (text: string, voiceId: string) => Promise<void>;
+  // Resolves once playback has finished; rejects if the engine couldn't speak
+  speak: (text: string, voiceId: string, options?: SpeechOptions) => Promise<void>;
+  cancel: () => void;
+}
+
+// --- AI Features ---
+
+// Which provider produced a result; 'none' when nothing could be produced
+export type ResultSource = 'ai' | 'local' | 'none';
+
+// A swappable implementation of an AI feature: Gemini, or a local one that works offline
+export interface FeatureProvider {
+  source: Exclude<ResultSource, 'none'>;
+  isAvailable: () => boolean;
+}
+
+// --- Smart Fix ---
+
+export interface RefineResult {
+  original: string;
+  candidates: string[]; // Alternative phrasings, best first (at most three)
+  source: ResultSource;
+  error?: string; // Why the AI refiner wasn't used, if it was tried
+}
+
+export interface SentenceRefiner extends FeatureProvider {
+  // Resolves with candidate phrasings; rejects if the refiner failed
+  refine: (words: string) => Promise<string[]>;
+}
+
+// --- Conversation ---
+
+// 'partner' is the person being talked with; 'user' is the AAC user's spoken sentences
+export type TranscriptSpeaker = 'partner' | 'user';
+
+export interface TranscriptEntry {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  timestamp: number; // When the turn started (ms since epoch)
+  isFinal: boolean; // False while the turn is still being transcribed
+}
+
+export interface ReplySuggester extends FeatureProvider {
+  // Resolves with short replies to what the partner said, best first; `words` is the user's vocabulary
+  suggest: (utterance: string, words: string[]) => Promise<string[]>;
+}
+
+export interface ReplySuggestions {
+  utterance: string;
+  replies: string[]; // Between three and six, best first (empty if nothing was said)
+  source: ResultSource;
+  error?: string; // Why the AI suggester wasn't used, if it was tried
+}
+
+// --- Scene Tiles ---
+
+export type SceneItemKind = 'object' | 'person' | 'action';
+
+// Where an item is in the camera frame, as fractions (0–1) of its width and height
+export interface SceneBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SceneItem {
+  label: string; // One or two words, e.g. "Red cup"
+  emoji: string;
+  kind: SceneItemKind;
+  box?: SceneBox; // Used to crop a picture of the item for its tile
+}
+
+export interface SceneImage {
+  data: string; // Base64 without the data URL prefix
+  mimeType: string;
+}
+
+export interface SceneAnalyzer extends FeatureProvider {
+  // Resolves with the salient objects, people and actions in the image, most important first
+  analyze: (image: SceneImage) => Promise<SceneItem[]>;
+}
+
+export interface SceneResult {
+  items: SceneItem[];
+  source: ResultSource;
+  error?: string; // Why the AI analyzer wasn't used, if it was tried
+}
+
+// Everything persisted for one user (captured by backups)
+export interface ProfileData {
+  settings: UserSettings;
+  savedTiles: TileData[];
+  pinnedTiles: TileData[];
+  vocabulary: VocabularyOverlay;
+  history: string[]; // Spoken sentences that word prediction learns from
+}
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  emoji: string;
+  defaultSettings: UserSettings; // Starting point for this profile and target of "Reset Defaults"
+}
+
+export interface ProfileRegistry {
+  activeProfileId: string;
+  profiles: UserProfile[];
+  switchPinHash?: string; // When set, changing profile requires this PIN
+}